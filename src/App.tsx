@@ -2,419 +2,1545 @@ import React, {
   useState,
   useRef,
   useEffect,
-  ChangeEvent,
+  useMemo,
   FormEvent,
 } from "react";
-import { Send, Trash2, X, ArrowUpRight } from "lucide-react";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import ReactMarkdown from "react-markdown";
+import {
+  AlertTriangle,
+  Archive,
+  BookText,
+  FileCode,
+  Library,
+  Paperclip,
+  RotateCcw,
+  Send,
+  Square,
+  Trash2,
+  PanelLeft,
+  SlidersHorizontal,
+  X,
+} from "lucide-react";
 
 // Import ShadCN UI components
-import { Input } from "@/components/ui/input";
-import { Toggle } from "@/components/ui/toggle";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import instructions from "@/lib/instructions";
+import ArtifactDisplay from "@/components/ArtifactDisplay";
+import ArtifactLibraryPanel from "@/components/ArtifactLibraryPanel";
+import ApiKeysPanel, { type NewApiKey } from "@/components/ApiKeysPanel";
+import AttachmentChip from "@/components/AttachmentChip";
+import CommandSuggestions from "@/components/CommandSuggestions";
+import ConversationSidebar from "@/components/ConversationSidebar";
+import GenerationSettingsPanel from "@/components/GenerationSettingsPanel";
+import { ModelPicker, ProviderControls } from "@/components/ProviderControls";
+import MessageComponent from "@/components/MessageComponent";
+import PromptTemplatesPanel from "@/components/PromptTemplatesPanel";
+import SharedArtifactViewer from "@/components/SharedArtifactViewer";
+import {
+  indexConversations,
+  type LibraryItem,
+} from "@/lib/artifact-library";
+import { ArtifactStreamParser } from "@/lib/artifact-parser";
+import { buildArtifactsZip, slugify } from "@/lib/artifact-export";
+import { collectArtifactVersions } from "@/lib/artifact-versions";
+import {
+  MAX_ATTACHMENTS,
+  MAX_MESSAGE_BYTES,
+  formatBytes,
+  readAttachment,
+} from "@/lib/attachments";
+import {
+  SUMMARY_INSTRUCTION,
+  SUMMARY_PROMPT,
+  assembleContext,
+  prepareContext,
+} from "@/lib/context-window";
+import {
+  conversationTitle,
+  createConversation,
+  titleFromMessages,
+  type Conversation,
+} from "@/lib/conversations";
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  composeSystemPrompt,
+  resolveGenerationSettings,
+  samplingSettings,
+  type GenerationOverrides,
+  type GenerationSettings,
+} from "@/lib/generation-settings";
+import {
+  activePath,
+  addNode,
+  childrenOf,
+  clearSelection,
+  emptyTree,
+  replaceMessage,
+  selectNode,
+  type MessageNode,
+  type MessageTree,
+} from "@/lib/message-tree";
+import {
+  defaultProviderSettings,
+  providers,
+  requireText,
+  type ProviderId,
+  type ProviderSettings,
+  type SavedProviderConfig,
+} from "@/lib/providers";
+import {
+  conversationToMarkdown,
+  exportConversationsJson,
+  mergeConversations,
+  parseConversationsImport,
+} from "@/lib/conversation-transfer";
+import { downloadBlob } from "@/lib/download";
+import {
+  DEFAULT_TEMPLATES,
+  exportTemplatesJson,
+  mergeTemplates,
+  parseTemplatesImport,
+  type PromptTemplate,
+} from "@/lib/prompt-templates";
+import { applyProjectUpdates } from "@/lib/react-project";
+import { parseShareFragment } from "@/lib/share-link";
+import {
+  commandSuggestions,
+  interpretInput,
+  type CommandSuggestion,
+  type ComposerAction,
+} from "@/lib/slash-commands";
+import {
+  loadStoredState,
+  saveSetting,
+  syncConversations,
+  syncLibrary,
+  toStorageError,
+  type StorageError,
+  type StoredState,
+} from "@/lib/storage";
+import {
+  createVault,
+  encryptSecret,
+  unlockVault,
+  type ApiKeyEntry,
+  type KeyVault,
+} from "@/lib/key-vault";
+import { ModelError, classifyError, withRetry } from "@/lib/model-errors";
+import { contextWindowFor, formatTokens, messageTokens } from "@/lib/tokens";
+import type { Artifact, Attachment, Message } from "@/lib/types";
 
+type SidePanel = "settings" | "templates" | "library" | "keys";
 
-import remarkGfm from 'remark-gfm';
-import rehypeHighlight from 'rehype-highlight';
+// Everything needed to run (or re-run) one model reply.
+interface ReplyRequest {
+  conversationId: string;
+  history: MessageNode[];
+  prompt: Message;
+  prefix?: string;
+  // The truncated reply being continued, hidden while the new text streams.
+  continuingNodeId?: string;
+  // The reply being regenerated, hidden while the new one streams and shown
+  // again if there is none to save.
+  replacing?: MessageNode;
+  save: (message: Message) => void;
+}
 
-// @ts-ignore
-const MarkdownRenderer = ({ children }) => {
-  return (
-    <div className="prose prose-lg mx-auto">
-      <ReactMarkdown 
-        children={children}
-        remarkPlugins={[remarkGfm]} 
-        rehypePlugins={[rehypeHighlight]}
-      />
-    </div>
+const CONTINUE_PROMPT =
+  "Continue exactly where your previous response stopped. Do not repeat anything you already wrote and do not add any preamble.";
+
+const PromptInterface: React.FC<{
+  initialState: StoredState;
+  initialStorageError: StorageError | null;
+  // From an "open in new chat" share link: starts a chat with it as context.
+  sharedArtifact?: Artifact;
+}> = ({ initialState, initialStorageError, sharedArtifact }) => {
+  const [sharedConversation] = useState<Conversation | null>(() =>
+    sharedArtifact ? createConversation() : null,
+  );
+  const [input, setInput] = useState<string>("");
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  // A slash command or template that couldn't be applied.
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState<number>(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] =
+    useState<boolean>(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [conversations, setConversations] = useState<Conversation[]>(() => {
+    if (sharedConversation) {
+      return [sharedConversation, ...initialState.conversations];
+    }
+    return initialState.conversations.length > 0
+      ? initialState.conversations
+      : [createConversation()];
+  });
+  const [activeConversationId, setActiveConversationId] = useState<
+    string | null
+  >(sharedConversation?.id ?? initialState.activeConversationId);
+  const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(
+    () => initialState.providerSettings ?? defaultProviderSettings(),
+  );
+  const [keyVault, setKeyVault] = useState<KeyVault | null>(
+    initialState.keyVault,
+  );
+  // Keys an earlier version saved in plaintext. They're removed from storage
+  // on load and kept in memory until encrypted into the vault or forgotten,
+  // so they're gone after a reload either way.
+  const [unencryptedApiKeys, setUnencryptedApiKeys] = useState(
+    initialState.unencryptedApiKeys,
+  );
+  // Memory only: the passphrase-derived key while the vault is unlocked,
+  // session-only keys, and the usable secret of every key by id.
+  const [vaultCryptoKey, setVaultCryptoKey] = useState<CryptoKey | null>(null);
+  const [sessionApiKeys, setSessionApiKeys] = useState<ApiKeyEntry[]>([]);
+  const [apiKeySecrets, setApiKeySecrets] = useState<Record<string, string>>(
+    () =>
+      Object.fromEntries(
+        initialState.unencryptedApiKeys.map((key) => [key.id, key.secret]),
+      ),
+  );
+  const [generationSettings, setGenerationSettings] =
+    useState<GenerationSettings>(() => ({
+      ...DEFAULT_GENERATION_SETTINGS,
+      ...initialState.generationSettings,
+    }));
+  // At most one side panel shows at a time, and only without an artifact.
+  // Starts on the keys panel when the chosen key needs unlocking, or to ask
+  // what to do with keys saved in plaintext.
+  const [openPanel, setOpenPanel] = useState<SidePanel | null>(() => {
+    const settings = initialState.providerSettings;
+    const keyId = settings?.configs[settings.provider]?.keyId;
+    return initialState.unencryptedApiKeys.length > 0 ||
+      initialState.keyVault?.keys.some((key) => key.id === keyId)
+      ? "keys"
+      : null;
+  });
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(
+    () => initialState.promptTemplates ?? DEFAULT_TEMPLATES,
+  );
+  const [library, setLibrary] = useState<LibraryItem[]>(initialState.library);
+  const savedLibraryRef = useRef<LibraryItem[]>(initialState.library);
+  // Starts empty so every chat is indexed once after loading.
+  const indexedConversationsRef = useRef<Conversation[]>([]);
+  // Library artifacts sent as context with the next message.
+  const [contextArtifacts, setContextArtifacts] = useState<Artifact[]>(
+    sharedArtifact ? [sharedArtifact] : [],
+  );
+  const [storageError, setStorageError] = useState<StorageError | null>(
+    initialStorageError,
+  );
+  // What the database holds, so each save only writes what changed.
+  const savedConversationsRef = useRef<Conversation[]>(
+    initialState.conversations,
+  );
+  const [isThinking, setIsThinking] = useState<boolean>(false);
+  const [streamingMessage, setStreamingMessage] = useState<string>("");
+  // The conversation the in-flight response belongs to, which may not be the
+  // one on screen if the user switched while it was generating.
+  const [streamingConversationId, setStreamingConversationId] = useState<
+    string | null
+  >(null);
+  const [streamingArtifacts, setStreamingArtifacts] = useState<Artifact[]>([]);
+  // A truncated reply being continued is hidden while the streaming bubble
+  // shows it together with the new text.
+  const [continuingNodeId, setContinuingNodeId] = useState<string | null>(null);
+  const [currentArtifact, setCurrentArtifact] = useState<Artifact | null>(
+    sharedArtifact ?? null,
+  );
+  // Set when the artifact was opened from the library, where it may belong
+  // to another chat, so this chat's versions don't apply.
+  const [isLibraryArtifact, setIsLibraryArtifact] = useState<boolean>(
+    !!sharedArtifact,
+  );
+  // The last reply that failed, kept so it can be retried.
+  const [failedReply, setFailedReply] = useState<{
+    request: ReplyRequest;
+    error: ModelError;
+  } | null>(null);
+  // Shown while waiting to retry a transient failure.
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
+  const chatAreaRef = useRef<HTMLDivElement | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const activeConversation =
+    conversations.find((c) => c.id === activeConversationId) ??
+    conversations[0];
+  const path = useMemo(
+    () => activePath(activeConversation.tree),
+    [activeConversation.tree],
+  );
+  const messages = useMemo(() => path.map((node) => node.message), [path]);
+  const { generationOverrides } = activeConversation;
+  const effectiveSettings = useMemo(
+    () => resolveGenerationSettings(generationSettings, generationOverrides),
+    [generationSettings, generationOverrides],
+  );
+  const systemInstruction = useMemo(
+    () => composeSystemPrompt(effectiveSettings),
+    [effectiveSettings],
+  );
+  const sampling = useMemo(
+    () => samplingSettings(effectiveSettings),
+    [effectiveSettings],
+  );
+  const provider = providers[providerSettings.provider];
+  const savedConfig = providerSettings.configs[provider.id];
+  const apiKeys = useMemo<ApiKeyEntry[]>(
+    () => [
+      ...(keyVault?.keys ?? []).map(({ id, provider, name }) => ({
+        id,
+        provider,
+        name,
+        persistence: "vault" as const,
+      })),
+      ...unencryptedApiKeys.map(({ id, provider, name }) => ({
+        id,
+        provider,
+        name,
+        persistence: "unencrypted" as const,
+      })),
+      ...sessionApiKeys,
+    ],
+    [keyVault, unencryptedApiKeys, sessionApiKeys],
+  );
+  const selectedKeySecret = savedConfig.keyId
+    ? apiKeySecrets[savedConfig.keyId]
+    : undefined;
+  const isKeyLocked =
+    selectedKeySecret === undefined &&
+    apiKeys.some((key) => key.id === savedConfig.keyId);
+  const providerConfig = useMemo(
+    () => ({ ...savedConfig, apiKey: selectedKeySecret ?? "" }),
+    [savedConfig, selectedKeySecret],
+  );
+  const model = providerConfig.model ?? provider.defaultModels[0] ?? "";
+  const contextWindow = contextWindowFor(model, effectiveSettings.contextWindow);
+  const reservedForOutput =
+    sampling.maxOutputTokens ?? Math.min(8192, Math.floor(contextWindow / 4));
+  const context = useMemo(
+    () =>
+      assembleContext(path, systemInstruction, activeConversation.contextSummary),
+    [path, systemInstruction, activeConversation.contextSummary],
+  );
+  // Share of the budget before the next send has to summarize older turns.
+  const contextUsage = context.tokens / (contextWindow - reservedForOutput);
+  const [availableModels, setAvailableModels] = useState<string[]>(
+    provider.defaultModels,
+  );
+  const isStreamingHere = streamingConversationId === activeConversation.id;
+  const artifactVersions = useMemo(
+    () => collectArtifactVersions(messages),
+    [messages],
+  );
+  const suggestions = useMemo(
+    () =>
+      suggestionsDismissed ? [] : commandSuggestions(input, promptTemplates),
+    [input, promptTemplates, suggestionsDismissed],
+  );
+  const currentVersions =
+    currentArtifact && !isLibraryArtifact
+      ? artifactVersions.get(currentArtifact.identifier) ?? []
+      : [];
+  const currentVersion = currentVersions.find(
+    (v) => v.artifact === currentArtifact,
   );
-};
 
+  const reportStorageError = (error: unknown) => {
+    console.error("Error saving to storage:", error);
+    setStorageError(toStorageError(error));
+  };
 
-interface Message {
-  role: "user" | "model";
-  parts: Array<{ text: string }>;
-  artifacts?: Artifact[];
-}
+  // Reloading shouldn't start another chat from the same link.
+  useEffect(() => {
+    if (sharedArtifact) {
+      window.history.replaceState(
+        null,
+        "",
+        window.location.pathname + window.location.search,
+      );
+    }
+  }, [sharedArtifact]);
 
-interface GeminiMessage {
-  role: "user" | "model";
-  parts: Array<{ text: string }>;
-}
+  useEffect(() => {
+    saveSetting("providerSettings", providerSettings).catch(reportStorageError);
+  }, [providerSettings]);
 
-interface Artifact {
-  identifier: string;
-  type: string;
-  title: string;
-  content: string;
-  language?: string;
-}
+  useEffect(() => {
+    saveSetting("generationSettings", generationSettings).catch(
+      reportStorageError,
+    );
+  }, [generationSettings]);
 
-const convertMessageToGeminiMessage = (message: Message): GeminiMessage => {
-  // Start with the text parts of the message
-  const partsText = message.parts.map(part => part.text).join("\n");
+  useEffect(() => {
+    saveSetting("promptTemplates", promptTemplates).catch(reportStorageError);
+  }, [promptTemplates]);
 
-  // If there are artifacts, convert them and append to the parts text
-  let artifactsText = "";
-  if (message.artifacts && message.artifacts.length > 0) {
-    artifactsText = message.artifacts.map(artifact => {
-      return `Title: ${artifact.title}\nContent: ${artifact.content}\nType: ${artifact.type}\nLanguage: ${artifact.language || "N/A"}`;
-    }).join("\n\n");
-  }
+  useEffect(() => {
+    saveSetting("keyVault", keyVault).catch(reportStorageError);
+  }, [keyVault]);
 
-  // Combine the text parts and artifacts into the final GeminiMessage parts
-  return {
-    role: message.role, // Keep the same role as the original message
-    parts: [
-      {
-        text: `${partsText}${artifactsText ? "\n\n" + artifactsText : ""}`
-      }
-    ]
-  };
-};
+  const hadUnencryptedApiKeys = initialState.unencryptedApiKeys.length > 0;
+  useEffect(() => {
+    if (!hadUnencryptedApiKeys) return;
+    saveSetting("unencryptedApiKeys", []).catch(reportStorageError);
+  }, [hadUnencryptedApiKeys]);
 
-const convertMessagesToGeminiMessages = (messages: Message[]): GeminiMessage[] => {
-  return messages.map(message => convertMessageToGeminiMessage(message));
-};
+  const { apiKey, baseUrl } = providerConfig;
+  useEffect(() => {
+    setAvailableModels(provider.defaultModels);
+    if (provider.apiKeyRequired && !apiKey) return;
+
+    // Debounced so typing a URL doesn't fire a request per keystroke.
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      provider
+        .listModels({ apiKey, baseUrl })
+        .then((models) => {
+          if (!cancelled && models.length > 0) setAvailableModels(models);
+        })
+        .catch((error) => console.error("Error listing models:", error));
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [provider, apiKey, baseUrl]);
+
+  useEffect(() => {
+    const previous = savedConversationsRef.current;
+    savedConversationsRef.current = conversations;
+    syncConversations(previous, conversations)
+      .then(() => setStorageError(null))
+      .catch((error) => {
+        // Retry the failed writes with the next change, unless a newer save
+        // has already taken over.
+        if (savedConversationsRef.current === conversations) {
+          savedConversationsRef.current = previous;
+        }
+        reportStorageError(error);
+      });
+  }, [conversations]);
+
+  useEffect(() => {
+    const indexed = new Set(indexedConversationsRef.current);
+    indexedConversationsRef.current = conversations;
+    const changed = conversations.filter((c) => !indexed.has(c));
+    if (changed.length > 0) {
+      setLibrary((prev) => indexConversations(prev, changed));
+    }
+  }, [conversations]);
 
+  useEffect(() => {
+    const previous = savedLibraryRef.current;
+    savedLibraryRef.current = library;
+    syncLibrary(previous, library).catch((error) => {
+      if (savedLibraryRef.current === library) {
+        savedLibraryRef.current = previous;
+      }
+      reportStorageError(error);
+    });
+  }, [library]);
 
-const ArtifactDisplay: React.FC<{
-  artifact: Artifact | null;
-  onClose: () => void;
-}> = ({ artifact, onClose }) => {
-  if (!artifact) return null;
-
-  const renderPreview = () => {
-    switch (artifact.type) {
-      case "text/markdown":
-        return <MarkdownRenderer>{artifact.content}</MarkdownRenderer>;
-      case "text/html":
-        return <div dangerouslySetInnerHTML={{ __html: artifact.content }} />;
-      case "image/svg+xml":
-        return <div dangerouslySetInnerHTML={{ __html: artifact.content }} />;
-      case "application/vnd.ant.mermaid":
-        // Note: Mermaid rendering would require additional setup
-        return <div>Mermaid diagram preview not yet implemented</div>;
-      case "application/vnd.ant.react":
-        // Note: React component rendering would require additional setup
-        return <div>React component preview not yet implemented</div>;
-      default:
-        return <div>Preview not available for this artifact type</div>;
+  useEffect(() => {
+    saveSetting("activeConversationId", activeConversation.id).catch(
+      reportStorageError,
+    );
+  }, [activeConversation.id]);
+
+  useEffect(() => {
+    if (chatAreaRef.current) {
+      chatAreaRef.current.scrollTop = chatAreaRef.current.scrollHeight;
     }
+  }, [messages, streamingMessage]);
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderSettings((prev) => ({ ...prev, provider: id }));
   };
 
-  return (
-    <Card className="w-1/2 h-full fixed right-0 top-0 z-50 flex flex-col">
-      <CardContent className="flex-1 p-4">
-        <div className="flex justify-between items-center mb-4">
-          <h2 className="text-xl font-bold">{artifact.title}</h2>
-          <Button variant="ghost" onClick={onClose}>
-            <X />
-          </Button>
-        </div>
-        <Tabs defaultValue="code">
-            <TabsList>
-              <TabsTrigger value="code">Code</TabsTrigger>
-              <TabsTrigger value="preview">Preview</TabsTrigger>
-            </TabsList>
-          <TabsContent value="code">
-            <ScrollArea className="h-[calc(100vh-200px)]">
-              <pre className="p-4 bg-gray-100 rounded">
-                <code>{artifact.content}</code>
-              </pre>
-            </ScrollArea>
-          </TabsContent>
-          <TabsContent value="preview">
-            <ScrollArea className="h-[calc(100vh-200px)]">
-              {renderPreview()}
-            </ScrollArea>
-          </TabsContent>
-        </Tabs>
-      </CardContent>
-    </Card>
-  );
-};
+  const updateProviderConfig = (
+    id: ProviderId,
+    patch: Partial<SavedProviderConfig>,
+  ) => {
+    setProviderSettings((prev) => ({
+      ...prev,
+      configs: { ...prev.configs, [id]: { ...prev.configs[id], ...patch } },
+    }));
+  };
 
-const MessageComponent: React.FC<{
-  message: Message;
-  onShowArtifact: (artifact: Artifact) => void;
-}> = ({ message, onShowArtifact }) => {
+  const handleProviderConfigChange = (patch: Partial<SavedProviderConfig>) => {
+    updateProviderConfig(provider.id, patch);
+  };
+
+  // Stops every provider from using the given keys.
+  const deselectKeys = (ids: Set<string>) => {
+    setProviderSettings((prev) => ({
+      ...prev,
+      configs: Object.fromEntries(
+        Object.entries(prev.configs).map(([id, config]) => [
+          id,
+          config.keyId && ids.has(config.keyId)
+            ? { ...config, keyId: undefined }
+            : config,
+        ]),
+      ) as ProviderSettings["configs"],
+    }));
+  };
+
+  const withoutSecrets = (ids: Set<string>) =>
+    setApiKeySecrets((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.has(id))),
+    );
 
-  const renderMessageContent = () => {
-    let content = message.parts[0].text;
-    content = content.replace(
-      /<antThinking>([\s\S]*?)<\/antThinking>/g,
-      "*$1*",
+  // Keys saved before encryption move into the vault once it is usable.
+  const encryptUnencryptedKeys = async (vault: KeyVault, key: CryptoKey) => {
+    const encrypted = await Promise.all(
+      unencryptedApiKeys.map(async ({ secret, ...rest }) => ({
+        ...rest,
+        secret: await encryptSecret(key, secret),
+      })),
     );
-    content = content.replace(/<antArtifact[\s\S]*?<\/antArtifact>/g, '');
-    return <MarkdownRenderer>{content}</MarkdownRenderer>;
+    setKeyVault({ ...vault, keys: [...vault.keys, ...encrypted] });
+    setUnencryptedApiKeys([]);
   };
 
-  return (
-    <div
-      className={`mb-4 ${message.role === "user" ? "text-right" : "text-left"}`}
-    >
-      <div
-        className={`inline-block p-3 rounded ${message.role === "user" ? "bg-primary/10" : "bg-muted"}`}
-        style={{ maxWidth: "90%" }}
-      >
-        {renderMessageContent()}
-        {message.artifacts && message.artifacts.length > 0 && (
-          <div className="mt-2">
-            {message.artifacts.map((artifact, index) => (
-              <Button
-                key={index}
-                variant="outline"
-                size="sm"
-                className="mr-2 mt-2"
-                onClick={() => onShowArtifact(artifact)}
-              >
-                <ArrowUpRight className="h-4 w-4 mr-1" />
-                {artifact.title}
-              </Button>
-            ))}
-          </div>
-        )}
-      </div>
-    </div>
-  );
-};
+  const handleCreateVault = async (passphrase: string) => {
+    const { vault, key } = await createVault(passphrase);
+    await encryptUnencryptedKeys(vault, key);
+    setVaultCryptoKey(key);
+  };
 
-const PromptInterface: React.FC = () => {
-  const [input, setInput] = useState<string>("");
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [apiKey, setApiKey] = useState<string>("");
-  const [model, setModel] = useState<string>("gemini-1.5-pro");
-  const [isThinking, setIsThinking] = useState<boolean>(false);
-  const [streamingMessage, setStreamingMessage] = useState<string>("");
-  const [currentArtifact, setCurrentArtifact] = useState<Artifact | null>(null);
-  const chatAreaRef = useRef<HTMLDivElement | null>(null);
-  const chatRef = useRef<any>(null);
+  const handleUnlockVault = async (passphrase: string) => {
+    if (!keyVault) return;
+    const { key, secrets } = await unlockVault(keyVault, passphrase);
+    await encryptUnencryptedKeys(keyVault, key);
+    setApiKeySecrets((prev) => ({ ...prev, ...secrets }));
+    setVaultCryptoKey(key);
+  };
 
-  useEffect(() => {
-    const storedApiKey = localStorage.getItem("apiKey");
-    const storedModel = localStorage.getItem("model");
-    const storedMessages = localStorage.getItem("chatHistory");
+  const handleLockVault = () => {
+    withoutSecrets(new Set(keyVault?.keys.map((key) => key.id)));
+    setVaultCryptoKey(null);
+  };
 
-    if (storedApiKey) setApiKey(storedApiKey);
-    if (storedModel) setModel(storedModel);
-    if (storedMessages) setMessages(JSON.parse(storedMessages));
-  }, []);
+  // For a forgotten passphrase: the encrypted keys can't be recovered.
+  const handleForgetVault = () => {
+    const ids = new Set(keyVault?.keys.map((key) => key.id));
+    withoutSecrets(ids);
+    deselectKeys(ids);
+    setKeyVault(null);
+    setVaultCryptoKey(null);
+  };
 
-  useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem("chatHistory", JSON.stringify(messages));
+  const handleAddApiKey = async ({ provider, name, secret, sessionOnly }: NewApiKey) => {
+    const id = crypto.randomUUID();
+    if (sessionOnly) {
+      setSessionApiKeys((prev) => [
+        ...prev,
+        { id, provider, name, persistence: "session" },
+      ]);
+    } else {
+      if (!keyVault || !vaultCryptoKey) return;
+      const encrypted = await encryptSecret(vaultCryptoKey, secret);
+      setKeyVault({
+        ...keyVault,
+        keys: [...keyVault.keys, { id, provider, name, secret: encrypted }],
+      });
     }
-  }, [messages]);
+    setApiKeySecrets((prev) => ({ ...prev, [id]: secret }));
+    updateProviderConfig(provider, { keyId: id });
+  };
 
-  useEffect(() => {
-    if (chatAreaRef.current) {
-      chatAreaRef.current.scrollTop = chatAreaRef.current.scrollHeight;
-    }
-  }, [messages, streamingMessage]);
+  const handleForgetApiKey = (id: string) => {
+    setKeyVault(
+      (prev) => prev && { ...prev, keys: prev.keys.filter((key) => key.id !== id) },
+    );
+    setUnencryptedApiKeys((prev) => prev.filter((key) => key.id !== id));
+    setSessionApiKeys((prev) => prev.filter((key) => key.id !== id));
+    withoutSecrets(new Set([id]));
+    deselectKeys(new Set([id]));
+  };
 
-  const handleApiKeyChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const newApiKey = e.target.value;
-    setApiKey(newApiKey);
-    localStorage.setItem("apiKey", newApiKey);
+  const handleForgetUnencryptedKeys = () => {
+    const ids = new Set(unencryptedApiKeys.map((key) => key.id));
+    withoutSecrets(ids);
+    deselectKeys(ids);
+    setUnencryptedApiKeys([]);
   };
 
   const handleModelChange = (newModel: string) => {
-    setModel(newModel);
-    localStorage.setItem("model", newModel);
-  };
-
-  const parseArtifacts = (text: string): Artifact[] => {
-    const artifactRegex =
-      /<antArtifact\s+identifier="([^"]+)"\s+type="([^"]+)"\s+(?:language="([^"]+)"\s+)?title="([^"]+)">([\s\S]*?)<\/antArtifact>/g;
-    const artifacts: Artifact[] = [];
-    let match;
-    while ((match = artifactRegex.exec(text)) !== null) {
-      artifacts.push({
-        identifier: match[1],
-        type: match[2],
-        language: match[3],
-        title: match[4],
-        content: match[5].trim(),
-      });
+    handleProviderConfigChange({ model: newModel });
+  };
+
+  const updateConversation = (
+    conversationId: string,
+    update: (conversation: Conversation) => Conversation,
+  ) => {
+    setConversations((prev) =>
+      prev.map((c) => (c.id === conversationId ? update(c) : c)),
+    );
+  };
+
+  // Records new or removed messages; moving between branches goes through
+  // selectBranch so it doesn't reorder the sidebar.
+  const updateConversationTree = (
+    conversationId: string,
+    update: (tree: MessageTree) => MessageTree,
+  ) => {
+    updateConversation(conversationId, (c) => {
+      const tree = update(c.tree);
+      return {
+        ...c,
+        tree,
+        title:
+          c.title ||
+          titleFromMessages(activePath(tree).map((node) => node.message)),
+        updatedAt: Date.now(),
+      };
+    });
+  };
+
+  const handleOverridesChange = (overrides: GenerationOverrides | undefined) => {
+    updateConversation(activeConversation.id, (c) => ({
+      ...c,
+      generationOverrides: overrides,
+    }));
+  };
+
+  const selectBranch = (node: MessageNode) => {
+    updateConversation(activeConversation.id, (c) => ({
+      ...c,
+      tree: selectNode(c.tree, node),
+    }));
+  };
+
+  const switchConversation = (conversationId: string) => {
+    setActiveConversationId(conversationId);
+    setCurrentArtifact(null);
+    setContextArtifacts([]);
+  };
+
+  const handleCreateConversation = () => {
+    const conversation = createConversation();
+    setConversations((prev) => [conversation, ...prev]);
+    switchConversation(conversation.id);
+    return conversation.id;
+  };
+
+  const handleRenameConversation = (conversationId: string, title: string) => {
+    setConversations((prev) =>
+      prev.map((c) => (c.id === conversationId ? { ...c, title } : c)),
+    );
+  };
+
+  const handleDeleteConversation = (conversationId: string) => {
+    const remaining = conversations.filter((c) => c.id !== conversationId);
+    if (remaining.length === 0) remaining.push(createConversation());
+    setConversations(remaining);
+    if (conversationId === activeConversation.id) {
+      switchConversation(remaining[0].id);
     }
-    return artifacts;
   };
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || !apiKey) return;
+  // Keeps the side panel on an artifact that is still streaming in, since
+  // every chunk produces a fresh object for it.
+  const followStreamingArtifacts = (previous: Artifact[], next: Artifact[]) => {
+    setCurrentArtifact((current) => {
+      if (!current || !previous.includes(current)) return current;
+      return next.find((a) => a.identifier === current.identifier) ?? current;
+    });
+  };
 
-    const newMessages: Message[] = [
-      ...messages,
-      { role: "user", parts: [{ text: input }] },
-    ];
-    setMessages(newMessages);
-    setInput("");
+  // Asks the model for a summary of `history`, used to shorten conversations
+  // that no longer fit the context window.
+  const summarizeHistory = async (history: Message[], signal: AbortSignal) => {
+    const session = provider.startChat(providerConfig, {
+      model,
+      systemInstruction: SUMMARY_INSTRUCTION,
+      sampling: { ...sampling, maxOutputTokens: undefined, stopSequences: [] },
+      history,
+    });
+    const stream = await session.sendMessageStream(
+      { role: "user", parts: [{ text: SUMMARY_PROMPT }] },
+      { signal },
+    );
+    let summary = "";
+    for await (const chunk of stream) summary += chunk;
+    return summary.trim();
+  };
+
+  // Streams the model's answer to `prompt` and hands the finished (or
+  // stopped) message to `save`.
+  // `prefix` is text the reply already has, when continuing a truncated one.
+  // `history` is the branch before `prompt`; it is summarized first if it
+  // doesn't fit the model's context window.
+  // Transient failures are retried with backoff; anything else ends up in
+  // `failedReply` rather than in the conversation.
+  const streamReply = async (request: ReplyRequest) => {
+    const { conversationId, history, prompt, prefix = "", save, replacing } = request;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const retryOptions = {
+      signal: controller.signal,
+      onRetry: (error: ModelError, attempt: number, delayMs: number) =>
+        setRetryStatus(
+          `${error.title}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})…`,
+        ),
+    };
+    setFailedReply(null);
+    if (replacing) {
+      updateConversationTree(conversationId, (tree) =>
+        clearSelection(tree, replacing.parentId),
+      );
+    }
+    setContinuingNodeId(request.continuingNodeId ?? null);
     setIsThinking(true);
-    setStreamingMessage("");
+    setStreamingConversationId(conversationId);
+    setStreamingMessage(prefix);
+
+    let fullResponse = prefix;
+    let liveArtifacts: Artifact[] = [];
+    const parser = new ArtifactStreamParser();
+    parser.push(prefix);
+    let saved = false;
+    const keep = (message: Message) => {
+      saved = true;
+      save(message);
+    };
+    // Project updates may carry only the files that change; they're
+    // completed from the earlier version so every stored artifact is whole.
+    const priorMessages = [...history.map((node) => node.message), prompt];
+    const completeArtifacts = (artifacts: Artifact[]) =>
+      applyProjectUpdates(artifacts, priorMessages);
 
     try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const modelInstance = genAI.getGenerativeModel({ model });
-
-      var geminiMessages = newMessages;
-      geminiMessages = convertMessagesToGeminiMessages(geminiMessages);
-
-      if (!chatRef.current) {
-        chatRef.current = modelInstance.startChat({
-          history: [
-            { role: "user", parts: [{ text: instructions }] },
-            ...geminiMessages,
-          ],
-        });
+      const conversation = conversations.find((c) => c.id === conversationId);
+      const prepared = await prepareContext({
+        nodes: history,
+        systemPrompt: systemInstruction,
+        prompt,
+        budget: { contextWindow, reservedForOutput },
+        summary: conversation?.contextSummary,
+        summarize: (messages) =>
+          withRetry(
+            () => summarizeHistory(messages, controller.signal),
+            retryOptions,
+          ),
+      });
+      if (prepared.summary && prepared.summary !== conversation?.contextSummary) {
+        updateConversation(conversationId, (c) => ({
+          ...c,
+          contextSummary: prepared.summary,
+        }));
       }
+      // A session keeps every turn it sends, so each reply starts a fresh
+      // one from the branch it follows.
+      const session = provider.startChat(providerConfig, {
+        model,
+        systemInstruction,
+        sampling,
+        history: prepared.history,
+      });
+      const stream = requireText(
+        await withRetry(
+          () => session.sendMessageStream(prompt, { signal: controller.signal }),
+          retryOptions,
+        ),
+      );
+      setRetryStatus(null);
 
-      const result = await chatRef.current.sendMessageStream(input);
-
-      let fullResponse = "";
-      for await (const chunk of result.stream) {
-        const chunkText = chunk.text();
+      for await (const chunkText of stream) {
+        if (controller.signal.aborted) break;
         fullResponse += chunkText;
         setStreamingMessage((prevMessage) => prevMessage + chunkText);
+
+        parser.push(chunkText);
+        const nextArtifacts = completeArtifacts(
+          parser.pending ? [...parser.artifacts, parser.pending] : parser.artifacts,
+        );
+        followStreamingArtifacts(liveArtifacts, nextArtifacts);
+        liveArtifacts = nextArtifacts;
+        setStreamingArtifacts(nextArtifacts);
       }
 
-      const artifacts = parseArtifacts(fullResponse);
-      setMessages([
-        ...newMessages,
-        { role: "model", parts: [{ text: fullResponse }], artifacts },
-      ]);
+      // Stopped before any text arrived: there is nothing to keep.
+      if (fullResponse !== prefix) {
+        const artifacts = completeArtifacts(parser.end().artifacts);
+        followStreamingArtifacts(liveArtifacts, artifacts);
+        keep({
+          role: "model",
+          parts: [{ text: fullResponse }],
+          artifacts,
+          ...(controller.signal.aborted && { truncated: true }),
+        });
+      }
       setStreamingMessage("");
     } catch (error) {
-      console.error("Error fetching response:", error);
-      setMessages([
-        ...newMessages,
-        {
-          role: "model",
-          parts: [{ text: "An error occurred while processing your request." + error }],
-        },
-      ]);
+      if (controller.signal.aborted) {
+        // Keep what arrived before Stop, with the artifacts it completed,
+        // unless Stop came before the first chunk (or during a retry wait).
+        if (fullResponse !== prefix) {
+          const artifacts = completeArtifacts(parser.end().artifacts);
+          followStreamingArtifacts(liveArtifacts, artifacts);
+          keep({
+            role: "model",
+            parts: [{ text: fullResponse }],
+            artifacts,
+            truncated: true,
+          });
+        }
+      } else {
+        console.error("Error fetching response:", error);
+        // A reply that failed part-way is kept like a stopped one, so it
+        // can be continued.
+        if (fullResponse !== prefix) {
+          const artifacts = completeArtifacts(parser.end().artifacts);
+          followStreamingArtifacts(liveArtifacts, artifacts);
+          keep({
+            role: "model",
+            parts: [{ text: fullResponse }],
+            artifacts,
+            truncated: true,
+          });
+        }
+        setFailedReply({ request, error: classifyError(error) });
+      }
     } finally {
+      // Without a new reply the old one would stay hidden with no pager.
+      if (replacing && !saved) {
+        updateConversationTree(conversationId, (tree) => selectNode(tree, replacing));
+      }
+      abortControllerRef.current = null;
+      setRetryStatus(null);
+      setStreamingArtifacts([]);
+      setStreamingConversationId(null);
+      setContinuingNodeId(null);
       setIsThinking(false);
     }
   };
 
+  // Streams the model's answer to `userNode` and stores it as a new child of
+  // that node. `history` is the branch leading up to `userNode`.
+  const generateReply = (
+    conversationId: string,
+    userNode: MessageNode,
+    history: MessageNode[],
+    replacing?: MessageNode,
+  ) =>
+    streamReply({
+      conversationId,
+      history,
+      prompt: userNode.message,
+      replacing,
+      save: (message) =>
+        updateConversationTree(conversationId, (tree) =>
+          addNode(tree, {
+            id: crypto.randomUUID(),
+            parentId: userNode.id,
+            message,
+          }),
+        ),
+    });
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const canSend = () =>
+    !!model && !(provider.apiKeyRequired && !providerConfig.apiKey);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const hasExtras = attachments.length > 0 || contextArtifacts.length > 0;
+    if ((!input.trim() && !hasExtras) || isThinking) return;
+
+    let action: ComposerAction;
+    try {
+      action = interpretInput(input, {
+        templates: promptTemplates,
+        models: availableModels,
+      });
+    } catch (error) {
+      setCommandError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setCommandError(null);
+    if (action.kind === "model") {
+      handleModelChange(action.model);
+      setInput("");
+      return;
+    }
+
+    let conversationId = activeConversation.id;
+    let history = path;
+    if (action.kind === "newChat") {
+      conversationId = handleCreateConversation();
+      history = [];
+      // Kept in the new chat's composer if it can't be sent yet.
+      setInput(action.text);
+    }
+    if (!action.text.trim() && !hasExtras) {
+      if (action.kind === "send" && action.artifactType) {
+        setCommandError(
+          "/artifact needs a message after the type, like /artifact react a pricing table.",
+        );
+      }
+      return;
+    }
+    if (!canSend()) return;
+
+    const userNode: MessageNode = {
+      id: crypto.randomUUID(),
+      parentId: history.length > 0 ? history[history.length - 1].id : null,
+      message: {
+        role: "user",
+        parts: [{ text: action.text }],
+        ...(attachments.length > 0 && { attachments }),
+        ...(contextArtifacts.length > 0 && { artifacts: contextArtifacts }),
+        ...(action.kind === "send" &&
+          action.artifactType && { artifactType: action.artifactType }),
+      },
+    };
+    updateConversationTree(conversationId, (tree) => addNode(tree, userNode));
+    setInput("");
+    setAttachments([]);
+    setAttachmentError(null);
+    setContextArtifacts([]);
+    await generateReply(conversationId, userNode, history);
+  };
+
+  // Resends an edited user message as a new branch next to the original.
+  const handleEditMessage = async (index: number, text: string) => {
+    if (!canSend()) return;
+    const conversationId = activeConversation.id;
+    const userNode: MessageNode = {
+      id: crypto.randomUUID(),
+      parentId: path[index].parentId,
+      message: { ...path[index].message, parts: [{ text }] },
+    };
+    updateConversationTree(conversationId, (tree) => addNode(tree, userNode));
+    await generateReply(conversationId, userNode, path.slice(0, index));
+  };
+
+  // Generates another reply to the user message before `index`, kept as a
+  // sibling of the existing one.
+  const handleRegenerate = async (index: number) => {
+    if (!canSend() || index === 0) return;
+    const conversationId = activeConversation.id;
+    await generateReply(
+      conversationId,
+      path[index - 1],
+      path.slice(0, index - 1),
+      path[index],
+    );
+  };
+
+  // Asks the model to pick up a stopped reply where it ended, and merges the
+  // continuation into the same message.
+  const handleContinue = async (index: number) => {
+    if (!canSend()) return;
+    const conversationId = activeConversation.id;
+    const modelNode = path[index];
+    const previousArtifacts = modelNode.message.artifacts ?? [];
+    const parsedCount = previousArtifacts.filter((a) => !a.editedByUser).length;
+    await streamReply({
+      conversationId,
+      history: path.slice(0, index + 1),
+      prompt: { role: "user", parts: [{ text: CONTINUE_PROMPT }] },
+      prefix: modelNode.message.parts[0].text,
+      continuingNodeId: modelNode.id,
+      // The reply is parsed again from the start, so the artifacts it already
+      // had come first; they're kept as stored, with the user's edits, and
+      // only the ones the continuation completes are added.
+      save: (message) =>
+        updateConversationTree(conversationId, (tree) =>
+          replaceMessage(tree, modelNode.id, {
+            ...message,
+            artifacts: [
+              ...previousArtifacts,
+              ...(message.artifacts ?? []).slice(parsedCount),
+            ],
+          }),
+        ),
+    });
+  };
+
+  const branchControls = (node: MessageNode) => {
+    const siblings = childrenOf(activeConversation.tree, node.parentId);
+    const index = siblings.indexOf(node);
+    return {
+      index: index + 1,
+      count: siblings.length,
+      onPrevious: () => selectBranch(siblings[index - 1]),
+      onNext: () => selectBranch(siblings[index + 1]),
+    };
+  };
+
+  const handleDownloadArtifacts = () => {
+    const title = conversationTitle(activeConversation);
+    downloadBlob(
+      buildArtifactsZip(artifactVersions, title),
+      `${slugify(title)}-artifacts.zip`,
+    );
+  };
+
+  const handleExportJson = (all: boolean) => {
+    const exported = all ? conversations : [activeConversation];
+    const name = all ? "conversations" : slugify(conversationTitle(activeConversation));
+    downloadBlob(
+      new Blob([exportConversationsJson(exported)], { type: "application/json" }),
+      `${name}.json`,
+    );
+  };
+
+  const handleExportMarkdown = () => {
+    downloadBlob(
+      new Blob([conversationToMarkdown(activeConversation)], { type: "text/markdown" }),
+      `${slugify(conversationTitle(activeConversation))}.md`,
+    );
+  };
+
+  const handleExportTemplates = () => {
+    downloadBlob(
+      new Blob([exportTemplatesJson(promptTemplates)], { type: "application/json" }),
+      "prompt-templates.json",
+    );
+  };
+
+  const handleImportTemplates = (text: string) => {
+    const imported = parseTemplatesImport(text);
+    setPromptTemplates((prev) => mergeTemplates(prev, imported));
+    return `Imported ${imported.length} template${imported.length === 1 ? "" : "s"}.`;
+  };
+
+  const handleImportConversations = (text: string) => {
+    const imported = parseConversationsImport(text);
+    const { added, updated } = mergeConversations(conversations, imported);
+    setConversations((prev) => mergeConversations(prev, imported).conversations);
+    const skipped = imported.length - added - updated;
+    return [
+      `Imported ${added} new chat${added === 1 ? "" : "s"}`,
+      updated > 0 && `updated ${updated}`,
+      skipped > 0 && `skipped ${skipped} already up to date`,
+    ]
+      .filter(Boolean)
+      .join(", ") + ".";
+  };
+
   const handleClearChat = () => {
-    setMessages([]);
-    localStorage.removeItem("chatHistory");
+    updateConversationTree(activeConversation.id, () => emptyTree());
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
+    setCommandError(null);
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+  };
+
+  const pickSuggestion = (suggestion: CommandSuggestion) => {
+    setInput(suggestion.insert);
+    setSuggestionIndex(0);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      const count = suggestions.length;
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSuggestionIndex((index) => (index + step + count) % count);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+      // Enter completes a partly typed name but runs one typed in full.
+      const suggestion = suggestions[Math.min(suggestionIndex, count - 1)];
+      if (
+        e.key === "Tab" ||
+        (e.key === "Enter" && !e.shiftKey && suggestion.insert.trim() !== input)
+      ) {
+        e.preventDefault();
+        pickSuggestion(suggestion);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e as any);
     }
   };
 
+  // Reads dropped, pasted or picked files, keeping the ones that fit and
+  // reporting the first that doesn't.
+  const addFiles = async (files: File[]) => {
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const errors: string[] = [];
+    if (files.length > room) {
+      errors.push(`Only ${MAX_ATTACHMENTS} attachments fit in one message.`);
+    }
+    let total = attachments.reduce((sum, attachment) => sum + attachment.size, 0);
+    const fitting = files.slice(0, Math.max(room, 0)).filter((file) => {
+      if (total + file.size > MAX_MESSAGE_BYTES) {
+        errors.push(
+          `${file.name} doesn't fit: attachments to one message are limited to ${formatBytes(MAX_MESSAGE_BYTES)} in total.`,
+        );
+        return false;
+      }
+      total += file.size;
+      return true;
+    });
+    const results = await Promise.allSettled(fitting.map(readAttachment));
+    const added: Attachment[] = [];
+    for (const result of results) {
+      if (result.status === "fulfilled") added.push(result.value);
+      else errors.unshift(result.reason.message);
+    }
+    setAttachments((prev) => [...prev, ...added]);
+    setAttachmentError(errors[0] ?? null);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleFilePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = "";
+  };
+
   const handleShowArtifact = (artifact: Artifact) => {
+    setOpenPanel(null);
+    setIsLibraryArtifact(false);
     setCurrentArtifact(artifact);
   };
 
+  const togglePanel = (panel: SidePanel) => {
+    setCurrentArtifact(null);
+    setOpenPanel(openPanel === panel ? null : panel);
+  };
+
+  // Items from this chat open as the live artifact, with their versions.
+  const handleOpenLibraryItem = (item: LibraryItem) => {
+    const versions = artifactVersions.get(item.artifact.identifier);
+    if (item.conversationId === activeConversation.id && versions) {
+      handleShowArtifact(versions[versions.length - 1].artifact);
+      return;
+    }
+    setOpenPanel(null);
+    setIsLibraryArtifact(true);
+    setCurrentArtifact(item.artifact);
+  };
+
+  const handleInsertLibraryItem = (item: LibraryItem) => {
+    setContextArtifacts((prev) => [
+      ...prev.filter((a) => a.identifier !== item.artifact.identifier),
+      item.artifact,
+    ]);
+  };
+
+  const handleUpdateLibraryItem = (
+    id: string,
+    patch: Partial<Pick<LibraryItem, "tags" | "pinned">>,
+  ) => {
+    setLibrary((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    );
+  };
+
+  // An item from a chat that still exists is indexed again the next time
+  // that chat changes.
+  const handleDeleteLibraryItem = (id: string) => {
+    setLibrary((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  // Saves an edit from the artifact panel as the newest version, stored
+  // alongside the latest version on this branch so follow-up turns send it.
+  const handleSaveArtifactEdit = (edited: Artifact) => {
+    const latest = currentVersions[currentVersions.length - 1];
+    if (!latest) return;
+    const node = path[latest.messageIndex];
+    updateConversationTree(activeConversation.id, (tree) =>
+      replaceMessage(tree, node.id, {
+        ...node.message,
+        artifacts: [...(node.message.artifacts ?? []), edited],
+      }),
+    );
+    setCurrentArtifact(edited);
+  };
+
   return (
     <div className="flex flex-col h-screen bg-background overflow-hidden">
       <div className="flex justify-between items-center p-4 bg-card shadow">
-        <Input
-          type="password"
-          value={apiKey}
-          onChange={handleApiKeyChange}
-          placeholder="AIStudio API Key"
-          className="w-36 md:w-48 lg:w-64 mr-4"
-        />
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="mr-2"
+            onClick={() => setIsSidebarOpen(!isSidebarOpen)}
+          >
+            <PanelLeft className="h-5 w-5" />
+          </Button>
+          <ProviderControls
+            provider={provider}
+            config={savedConfig}
+            apiKeys={apiKeys.filter((key) => key.provider === provider.id)}
+            isKeyLocked={isKeyLocked}
+            onProviderChange={handleProviderChange}
+            onConfigChange={handleProviderConfigChange}
+            onManageKeys={() => togglePanel("keys")}
+          />
+        </div>
         <div className="flex items-center">
           {!currentArtifact && (
-            <div className="flex rounded-md">
-              <Toggle
-                pressed={model === "gemini-1.5-pro"}
-                onPressedChange={() => handleModelChange("gemini-1.5-pro")}
-                variant="outline"
-              >
-                <div
-                  className={model === "gemini-1.5-pro" ? "text-green-600" : ""}
-                >
-                  gemini-1.5-pro
-                </div>
-              </Toggle>
-              <div className="w-1"></div>
-              <Toggle
-                pressed={model === "gemini-1.5-flash"}
-                onPressedChange={() => handleModelChange("gemini-1.5-flash")}
-                variant="outline"
-              >
-                <div
-                  className={
-                    model === "gemini-1.5-flash" ? "text-green-600" : ""
-                  }
-                >
-                  gemini-1.5-flash
-                </div>
-              </Toggle>
-            </div>
+            <ModelPicker
+              models={availableModels}
+              value={model}
+              onChange={handleModelChange}
+            />
           )}
+          <Button
+            onClick={handleDownloadArtifacts}
+            variant="outline"
+            className="ml-4"
+            disabled={artifactVersions.size === 0}
+            title="Download all artifacts in this conversation"
+          >
+            <Archive className="h-5 w-5 mr-1" /> Artifacts
+          </Button>
+          <Button
+            onClick={() => togglePanel("settings")}
+            variant="outline"
+            className="ml-4"
+            title="Generation settings and system prompt"
+          >
+            <SlidersHorizontal className="h-5 w-5 mr-1" /> Settings
+          </Button>
+          <Button
+            onClick={() => togglePanel("templates")}
+            variant="outline"
+            className="ml-4"
+            title="Prompt templates for the composer's slash commands"
+          >
+            <BookText className="h-5 w-5 mr-1" /> Templates
+          </Button>
+          <Button
+            onClick={() => togglePanel("library")}
+            variant="outline"
+            className="ml-4"
+            title="Artifacts from every chat"
+          >
+            <Library className="h-5 w-5 mr-1" /> Library
+          </Button>
           <Button onClick={handleClearChat} variant="outline" className="ml-4">
             <Trash2 className="h-5 w-5 mr-1" /> Clear
           </Button>
         </div>
       </div>
+      {storageError && (
+        <div className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-700 text-sm">
+          <span className="flex-1">{storageError.message}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setStorageError(null)}
+            title="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
       <div className="flex-1 flex max-h-[92%]">
-        <Card className="flex-1 mt-2 mx-4 overflow-hidden flex flex-col">
+        {isSidebarOpen && (
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={activeConversation.id}
+            onCreate={handleCreateConversation}
+            onSelect={switchConversation}
+            onRename={handleRenameConversation}
+            onDelete={handleDeleteConversation}
+            onExportJson={handleExportJson}
+            onExportMarkdown={handleExportMarkdown}
+            onImport={handleImportConversations}
+          />
+        )}
+        <Card
+          className={`flex-1 mt-2 mx-4 overflow-hidden flex flex-col ${isDraggingFiles ? "ring-2 ring-primary" : ""}`}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDraggingFiles(false)}
+          onDrop={handleDrop}
+        >
           <ScrollArea className="flex-1 p-4" ref={chatAreaRef}>
-            {messages.map((msg, index) => (
+            {path.map(
+              (node, index) =>
+                node.id !== continuingNodeId && (
+                  <MessageComponent
+                    key={node.id}
+                    message={node.message}
+                    branch={branchControls(node)}
+                    tokenCount={messageTokens(node.message)}
+                    actionsDisabled={isThinking}
+                    onEdit={
+                      node.message.role === "user"
+                        ? (text) => handleEditMessage(index, text)
+                        : undefined
+                    }
+                    onRegenerate={
+                      node.message.role === "model" && index > 0
+                        ? () => handleRegenerate(index)
+                        : undefined
+                    }
+                    onContinue={
+                      node.message.truncated && index === path.length - 1
+                        ? () => handleContinue(index)
+                        : undefined
+                    }
+                    onShowArtifact={handleShowArtifact}
+                  />
+                ),
+            )}
+            {isStreamingHere && streamingMessage && (
               <MessageComponent
-                key={index}
-                message={msg}
+                message={{
+                  role: "model",
+                  parts: [{ text: streamingMessage }],
+                  artifacts: streamingArtifacts,
+                }}
+                isStreaming
                 onShowArtifact={handleShowArtifact}
               />
-            ))}
-            {streamingMessage && (
-              <div className="mb-4 text-left">
-                <div className="inline-block p-3 rounded bg-muted">
-                  <MarkdownRenderer>{streamingMessage}</MarkdownRenderer>
-                </div>
-              </div>
             )}
-            {isThinking && (
+            {isStreamingHere && isThinking && (
               <div className="mb-4 text-left">
                 <div className="inline-block p-3 rounded bg-muted animate-pulse">
-                  Thinking...
+                  {retryStatus ?? "Thinking..."}
                 </div>
               </div>
             )}
           </ScrollArea>
           <CardContent>
-            <form onSubmit={handleSubmit} className="flex px-4 bg-card">
+            {failedReply &&
+              failedReply.request.conversationId === activeConversation.id && (
+                <div className="mx-4 mb-2 flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-destructive">
+                      {failedReply.error.title}
+                    </div>
+                    {failedReply.error.hint && <div>{failedReply.error.hint}</div>}
+                    <div className="mt-1 text-xs text-muted-foreground break-words">
+                      {failedReply.error.message}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isThinking || !canSend()}
+                    onClick={() => streamReply(failedReply.request)}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" /> Retry
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Dismiss"
+                    onClick={() => setFailedReply(null)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            {commandError && (
+              <div className="px-4 pb-2 text-sm text-destructive">{commandError}</div>
+            )}
+            {(attachments.length > 0 ||
+              contextArtifacts.length > 0 ||
+              attachmentError) && (
+              <div className="px-4 pb-2 space-y-2">
+                {(attachments.length > 0 || contextArtifacts.length > 0) && (
+                  <div className="flex flex-wrap gap-2">
+                    {contextArtifacts.map((artifact) => (
+                      <div
+                        key={artifact.identifier}
+                        className="inline-flex items-center gap-2 max-w-[16rem] rounded-md border bg-background p-1 pr-2 text-left text-xs"
+                        title="From the library, sent with the next message"
+                      >
+                        <div className="flex h-8 w-8 items-center justify-center rounded bg-muted">
+                          <FileCode className="h-4 w-4 text-muted-foreground" />
+                        </div>
+                        <div className="min-w-0">
+                          <div className="truncate font-medium">{artifact.title}</div>
+                          <div className="text-muted-foreground">Artifact</div>
+                        </div>
+                        <button
+                          type="button"
+                          className="ml-1 text-muted-foreground hover:text-foreground"
+                          title="Remove artifact"
+                          onClick={() =>
+                            setContextArtifacts((prev) =>
+                              prev.filter((a) => a !== artifact),
+                            )
+                          }
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    ))}
+                    {attachments.map((attachment) => (
+                      <AttachmentChip
+                        key={attachment.id}
+                        attachment={attachment}
+                        onRemove={() =>
+                          setAttachments((prev) =>
+                            prev.filter((a) => a.id !== attachment.id),
+                          )
+                        }
+                      />
+                    ))}
+                  </div>
+                )}
+                {attachmentError && (
+                  <div className="text-sm text-destructive">{attachmentError}</div>
+                )}
+              </div>
+            )}
+            <form onSubmit={handleSubmit} className="relative flex px-4 bg-card">
+              {suggestions.length > 0 && (
+                <CommandSuggestions
+                  suggestions={suggestions}
+                  activeIndex={Math.min(suggestionIndex, suggestions.length - 1)}
+                  onPick={pickSuggestion}
+                  onHover={setSuggestionIndex}
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="mr-2"
+                onClick={() => fileInputRef.current?.click()}
+                title="Attach images or text files"
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleFilePicked}
+              />
               <Textarea
                 value={input}
                 onChange={handleInputChange}
                 onKeyDown={handleKeyDown}
-                placeholder="Type your message... (Shift+Enter for new line)"
+                onPaste={handlePaste}
+                placeholder="Type your message, or / for commands and templates... (Shift+Enter for new line)"
                 className="flex-1 mr-2 resize-none"
                 style={{ maxHeight: "200px", overflowY: "auto" }}
               />
-              <Button type="submit" disabled={isThinking}>
-                <Send className="h-5 w-5" />
-              </Button>
+              {isThinking ? (
+                <Button type="button" variant="outline" onClick={handleStop}>
+                  <Square className="h-5 w-5" />
+                </Button>
+              ) : (
+                <Button type="submit">
+                  <Send className="h-5 w-5" />
+                </Button>
+              )}
             </form>
+            <div
+              className={`px-4 pt-2 text-xs ${contextUsage >= 0.8 ? "text-destructive" : "text-muted-foreground"}`}
+              title="Estimated tokens sent with the next message, including the system prompt"
+            >
+              ~{formatTokens(context.tokens)} of {formatTokens(contextWindow)} tokens
+              {context.summary && " · earlier turns summarized"}
+              {contextUsage >= 0.8 &&
+                (contextUsage >= 1
+                  ? " · over the limit, older turns will be summarized before sending"
+                  : " · approaching the model's context limit")}
+            </div>
           </CardContent>
         </Card>
+        {openPanel === "settings" && (
+          <GenerationSettingsPanel
+            key={activeConversation.id}
+            globalSettings={generationSettings}
+            overrides={generationOverrides}
+            onGlobalChange={setGenerationSettings}
+            onOverridesChange={handleOverridesChange}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
+        {openPanel === "templates" && (
+          <PromptTemplatesPanel
+            templates={promptTemplates}
+            onChange={setPromptTemplates}
+            onExport={handleExportTemplates}
+            onImport={handleImportTemplates}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
+        {openPanel === "keys" && (
+          <ApiKeysPanel
+            apiKeys={apiKeys}
+            selectedKeyIds={Object.fromEntries(
+              Object.entries(providerSettings.configs).map(([id, config]) => [
+                id,
+                config.keyId,
+              ]),
+            )}
+            vaultStatus={!keyVault ? "none" : vaultCryptoKey ? "unlocked" : "locked"}
+            onCreateVault={handleCreateVault}
+            onUnlockVault={handleUnlockVault}
+            onLockVault={handleLockVault}
+            onForgetVault={handleForgetVault}
+            onAddKey={handleAddApiKey}
+            onForgetKey={handleForgetApiKey}
+            onForgetUnencryptedKeys={handleForgetUnencryptedKeys}
+            onSelectKey={(id, keyId) => updateProviderConfig(id, { keyId })}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
+        {openPanel === "library" && (
+          <ArtifactLibraryPanel
+            items={library}
+            onOpen={handleOpenLibraryItem}
+            onInsert={handleInsertLibraryItem}
+            onUpdate={handleUpdateLibraryItem}
+            onDelete={handleDeleteLibraryItem}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
         {currentArtifact && (
           <ArtifactDisplay
+            key={`${currentArtifact.identifier}@${currentVersion?.version}`}
             artifact={currentArtifact}
+            versions={currentVersions}
             onClose={() => setCurrentArtifact(null)}
+            onSaveEdit={currentVersion ? handleSaveArtifactEdit : undefined}
           />
         )}
       </div>
@@ -422,4 +1548,74 @@ const PromptInterface: React.FC = () => {
   );
 };
 
-export default PromptInterface;
+const EMPTY_STATE: StoredState = {
+  conversations: [],
+  activeConversationId: null,
+  providerSettings: null,
+  generationSettings: null,
+  promptTemplates: null,
+  library: [],
+  keyVault: null,
+  unencryptedApiKeys: [],
+};
+
+// Loads saved state before mounting the chat, which otherwise would start
+// empty and overwrite it. Share links in the URL fragment show the
+// read-only viewer instead.
+const App: React.FC = () => {
+  const [hash, setHash] = useState<string>(window.location.hash);
+  const shared = useMemo(() => parseShareFragment(hash), [hash]);
+  const isViewingShared =
+    shared !== null && (shared.mode === "view" || "error" in shared);
+  const [loaded, setLoaded] = useState<{
+    state: StoredState;
+    error: StorageError | null;
+  } | null>(null);
+
+  useEffect(() => {
+    const handleHashChange = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  // Loaded afresh each time the chat mounts, since another visit to the
+  // viewer may have left the earlier copy stale.
+  useEffect(() => {
+    if (isViewingShared) return;
+    let cancelled = false;
+    loadStoredState()
+      .then((state) => {
+        if (!cancelled) setLoaded({ state, error: null });
+      })
+      .catch((error) => {
+        console.error("Error loading from storage:", error);
+        if (!cancelled) {
+          setLoaded({ state: EMPTY_STATE, error: toStorageError(error) });
+        }
+      });
+    return () => {
+      cancelled = true;
+      setLoaded(null);
+    };
+  }, [isViewingShared]);
+
+  if (shared && isViewingShared) {
+    return <SharedArtifactViewer route={shared} />;
+  }
+  if (!loaded) {
+    return (
+      <div className="flex h-screen items-center justify-center text-muted-foreground">
+        Loading…
+      </div>
+    );
+  }
+  return (
+    <PromptInterface
+      initialState={loaded.state}
+      initialStorageError={loaded.error}
+      sharedArtifact={shared && "artifact" in shared ? shared.artifact : undefined}
+    />
+  );
+};
+
+export default App;
@@ -0,0 +1,330 @@
+import React, { useState } from "react";
+import { AlertTriangle, Lock, Trash2, Unlock, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { selectClassName } from "@/components/ProviderControls";
+import type { ApiKeyEntry, ApiKeyPersistence } from "@/lib/key-vault";
+import { providers, type ProviderId } from "@/lib/providers";
+
+export type VaultStatus = "none" | "locked" | "unlocked";
+
+export interface NewApiKey {
+  provider: ProviderId;
+  name: string;
+  secret: string;
+  sessionOnly: boolean;
+}
+
+const PERSISTENCE_LABELS: Record<ApiKeyPersistence, string> = {
+  vault: "encrypted",
+  session: "this session",
+  unencrypted: "unencrypted, until reload",
+};
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Sets up or unlocks the passphrase that encrypts saved keys.
+const VaultForm: React.FC<{
+  status: VaultStatus;
+  onCreate: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onForget: () => void;
+}> = ({ status, onCreate, onUnlock, onLock, onForget }) => {
+  const [passphrase, setPassphrase] = useState<string>("");
+  const [confirmation, setConfirmation] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [confirmForget, setConfirmForget] = useState<boolean>(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (status === "none") {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("The passphrases don't match.");
+        return;
+      }
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      await (status === "none" ? onCreate : onUnlock)(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+    } catch (error) {
+      setError(errorMessage(error));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (status === "unlocked") {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Unlock className="h-4 w-4" /> Saved keys are unlocked until you reload or lock
+          them.
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onLock}>
+            <Lock className="h-4 w-4 mr-1" /> Lock
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive"
+            onClick={() => (confirmForget ? onForget() : setConfirmForget(true))}
+            onBlur={() => setConfirmForget(false)}
+          >
+            {confirmForget ? "Click again to confirm" : "Forget all saved keys"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-2">
+      <p className="text-sm">
+        {status === "none"
+          ? "Choose a passphrase to encrypt the keys you save. It is never stored, so you'll enter it once per session."
+          : "Enter your passphrase to use the saved keys this session."}
+      </p>
+      <Input
+        type="password"
+        value={passphrase}
+        autoFocus={status === "locked"}
+        placeholder="Passphrase"
+        onChange={(e) => setPassphrase(e.target.value)}
+      />
+      {status === "none" && (
+        <Input
+          type="password"
+          value={confirmation}
+          placeholder="Repeat passphrase"
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+      )}
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={isWorking || !passphrase}>
+          {status === "none" ? "Set passphrase" : "Unlock"}
+        </Button>
+        {status === "locked" && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-destructive"
+            onClick={() => (confirmForget ? onForget() : setConfirmForget(true))}
+            onBlur={() => setConfirmForget(false)}
+            title="For a forgotten passphrase: the saved keys can't be recovered"
+          >
+            {confirmForget ? "Click again to confirm" : "Forgot passphrase"}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+const ApiKeysPanel: React.FC<{
+  apiKeys: ApiKeyEntry[];
+  // The key each provider uses.
+  selectedKeyIds: Partial<Record<ProviderId, string>>;
+  vaultStatus: VaultStatus;
+  onCreateVault: (passphrase: string) => Promise<void>;
+  onUnlockVault: (passphrase: string) => Promise<void>;
+  onLockVault: () => void;
+  onForgetVault: () => void;
+  onAddKey: (key: NewApiKey) => Promise<void>;
+  onForgetKey: (id: string) => void;
+  onForgetUnencryptedKeys: () => void;
+  onSelectKey: (provider: ProviderId, id: string) => void;
+  onClose: () => void;
+}> = ({
+  apiKeys,
+  selectedKeyIds,
+  vaultStatus,
+  onCreateVault,
+  onUnlockVault,
+  onLockVault,
+  onForgetVault,
+  onAddKey,
+  onForgetKey,
+  onForgetUnencryptedKeys,
+  onSelectKey,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<NewApiKey>({
+    provider: "gemini",
+    name: "",
+    secret: "",
+    sessionOnly: false,
+  });
+  const [addError, setAddError] = useState<string | null>(null);
+  const unencryptedCount = apiKeys.filter((k) => k.persistence === "unencrypted").length;
+  const them = unencryptedCount === 1 ? "it" : "them";
+  const canSave = vaultStatus === "unlocked" || draft.sessionOnly;
+
+  const addKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.secret.trim() || !canSave) return;
+    try {
+      await onAddKey({
+        ...draft,
+        name: draft.name.trim() || `${providers[draft.provider].label} key`,
+        secret: draft.secret.trim(),
+      });
+      setDraft({ ...draft, name: "", secret: "" });
+      setAddError(null);
+    } catch (error) {
+      setAddError(errorMessage(error));
+    }
+  };
+
+  return (
+    <Card className="w-96 h-full fixed right-0 top-0 z-50 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="text-xl font-bold">API keys</h2>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <CardContent className="space-y-6 p-4">
+          {unencryptedCount > 0 && (
+            <div className="flex items-start gap-2 rounded-md bg-red-50 p-2 text-sm text-red-700">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <div className="space-y-2">
+                <p>
+                  {unencryptedCount === 1 ? "A key was" : `${unencryptedCount} keys were`}{" "}
+                  saved without encryption by an earlier version. To protect {them},{" "}
+                  {unencryptedCount === 1 ? "it has" : "they have"} been removed from storage
+                  and will be gone after a reload.{" "}
+                  {vaultStatus === "locked" ? "Unlock" : "Set a passphrase"} below to save{" "}
+                  {them} encrypted, or forget {them} now.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="bg-background"
+                  onClick={onForgetUnencryptedKeys}
+                >
+                  Forget {them}
+                </Button>
+              </div>
+            </div>
+          )}
+          <VaultForm
+            status={vaultStatus}
+            onCreate={onCreateVault}
+            onUnlock={onUnlockVault}
+            onLock={onLockVault}
+            onForget={onForgetVault}
+          />
+          {Object.values(providers).map((provider) => {
+            const keys = apiKeys.filter((k) => k.provider === provider.id);
+            return (
+              <div key={provider.id} className="space-y-1">
+                <h3 className="text-sm font-medium">{provider.label}</h3>
+                {keys.length === 0 && (
+                  <div className="text-xs text-muted-foreground">No keys yet.</div>
+                )}
+                {keys.map((key) => (
+                  <label
+                    key={key.id}
+                    className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm"
+                  >
+                    <input
+                      type="radio"
+                      name={`key-${provider.id}`}
+                      checked={selectedKeyIds[provider.id] === key.id}
+                      onChange={() => onSelectKey(provider.id, key.id)}
+                    />
+                    <span className="flex-1 truncate">{key.name}</span>
+                    <span
+                      className={`text-xs ${key.persistence === "unencrypted" ? "text-destructive" : "text-muted-foreground"}`}
+                    >
+                      {PERSISTENCE_LABELS[key.persistence]}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Forget this key"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onForgetKey(key.id);
+                      }}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+          <form onSubmit={addKey} className="space-y-2 rounded-md border p-2">
+            <h3 className="text-sm font-medium">Add a key</h3>
+            <div className="flex gap-2">
+              <select
+                className={selectClassName}
+                value={draft.provider}
+                onChange={(e) => setDraft({ ...draft, provider: e.target.value as ProviderId })}
+              >
+                {Object.values(providers).map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+              <Input
+                value={draft.name}
+                placeholder="Name, e.g. Work"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              />
+            </div>
+            <Input
+              type="password"
+              value={draft.secret}
+              placeholder={draft.provider === "gemini" ? "AIStudio API Key" : "API Key"}
+              autoComplete="off"
+              onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.sessionOnly}
+                onChange={(e) => setDraft({ ...draft, sessionOnly: e.target.checked })}
+              />
+              This session only (never saved)
+            </label>
+            {!canSave && (
+              <div className="text-xs text-muted-foreground">
+                {vaultStatus === "none" ? "Set a passphrase" : "Unlock"} above to save keys, or
+                keep this one for the session only.
+              </div>
+            )}
+            {addError && <div className="text-sm text-destructive">{addError}</div>}
+            <Button type="submit" size="sm" disabled={!draft.secret.trim() || !canSave}>
+              Add key
+            </Button>
+          </form>
+        </CardContent>
+      </ScrollArea>
+    </Card>
+  );
+};
+
+export default ApiKeysPanel;
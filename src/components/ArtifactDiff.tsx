@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from "react";
+
+import { Toggle } from "@/components/ui/toggle";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { ArtifactVersion } from "@/lib/artifact-versions";
+import { diffInline, diffSideBySide, type DiffLine } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+
+type DiffMode = "split" | "inline";
+
+const lineClassName = (line?: DiffLine) =>
+  cn(
+    "whitespace-pre-wrap break-all px-2",
+    line?.kind === "added" && "bg-green-100 text-green-900",
+    line?.kind === "removed" && "bg-red-100 text-red-900",
+    !line && "bg-muted",
+  );
+
+const lineMarker = (line: DiffLine) =>
+  line.kind === "added" ? "+" : line.kind === "removed" ? "-" : " ";
+
+const VersionSelect: React.FC<{
+  label: string;
+  value: number;
+  versions: ArtifactVersion[];
+  onChange: (value: number) => void;
+}> = ({ label, value, versions, onChange }) => (
+  <label className="flex items-center gap-1 text-sm">
+    {label}
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="h-8 rounded-md border border-input bg-transparent px-2"
+    >
+      {versions.map((v) => (
+        <option key={v.version} value={v.version}>
+          v{v.version}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const ArtifactDiff: React.FC<{
+  versions: ArtifactVersion[];
+  selectedVersion: number;
+}> = ({ versions, selectedVersion }) => {
+  const [mode, setMode] = useState<DiffMode>("split");
+  const [from, setFrom] = useState<number>(Math.max(1, selectedVersion - 1));
+  const [to, setTo] = useState<number>(selectedVersion);
+
+  const oldText = versions[from - 1]?.artifact.content ?? "";
+  const newText = versions[to - 1]?.artifact.content ?? "";
+
+  const inlineLines = useMemo(
+    () => (mode === "inline" ? diffInline(oldText, newText) : []),
+    [mode, oldText, newText],
+  );
+  const splitRows = useMemo(
+    () => (mode === "split" ? diffSideBySide(oldText, newText) : []),
+    [mode, oldText, newText],
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <VersionSelect label="From" value={from} versions={versions} onChange={setFrom} />
+        <VersionSelect label="To" value={to} versions={versions} onChange={setTo} />
+        <div className="flex-1" />
+        <Toggle
+          size="sm"
+          variant="outline"
+          pressed={mode === "split"}
+          onPressedChange={() => setMode("split")}
+        >
+          Side by side
+        </Toggle>
+        <Toggle
+          size="sm"
+          variant="outline"
+          pressed={mode === "inline"}
+          onPressedChange={() => setMode("inline")}
+        >
+          Inline
+        </Toggle>
+      </div>
+      <ScrollArea className="h-[calc(100vh-250px)] rounded border">
+        <div className="font-mono text-xs text-left">
+          {oldText === newText && (
+            <div className="p-4 text-muted-foreground">No changes.</div>
+          )}
+          {oldText !== newText &&
+            mode === "inline" &&
+            inlineLines.map((line, index) => (
+              <div key={index} className={cn("flex", lineClassName(line))}>
+                <span className="w-10 shrink-0 text-muted-foreground select-none">
+                  {line.oldNumber ?? ""}
+                </span>
+                <span className="w-10 shrink-0 text-muted-foreground select-none">
+                  {line.newNumber ?? ""}
+                </span>
+                <span className="w-4 shrink-0 select-none">{lineMarker(line)}</span>
+                <span>{line.text}</span>
+              </div>
+            ))}
+          {oldText !== newText &&
+            mode === "split" &&
+            splitRows.map((row, index) => (
+              <div key={index} className="grid grid-cols-2">
+                <div className={lineClassName(row.left)}>
+                  {row.left?.text ?? " "}
+                </div>
+                <div className={cn("border-l", lineClassName(row.right))}>
+                  {row.right?.text ?? " "}
+                </div>
+              </div>
+            ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default ArtifactDiff;
@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileCode,
+  Play,
+  Save,
+  Share2,
+  Square,
+  Undo2,
+  X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import ArtifactDiff from "@/components/ArtifactDiff";
+import CodeEditor from "@/components/CodeEditor";
+import ProjectFiles from "@/components/ProjectFiles";
+import RunConsole from "@/components/RunConsole";
+import {
+  artifactBlob,
+  artifactFilename,
+  buildStandaloneReactHtml,
+  canBundleStandalone,
+} from "@/lib/artifact-export";
+import { getArtifactType, validateArtifact } from "@/lib/artifact-types";
+import type { ArtifactVersion } from "@/lib/artifact-versions";
+import {
+  runCode,
+  runnableLanguage,
+  type ConsoleLine,
+  type RunHandle,
+  type RunStatus,
+} from "@/lib/code-runner";
+import { downloadBlob } from "@/lib/download";
+import { highlightLanguage } from "@/lib/highlight";
+import { isReactProject } from "@/lib/react-project";
+import { shareUrl } from "@/lib/share-link";
+import type { Artifact } from "@/lib/types";
+
+const ArtifactDisplay: React.FC<{
+  artifact: Artifact | null;
+  versions: ArtifactVersion[];
+  onClose: () => void;
+  // Omitted while the artifact is still streaming in.
+  onSaveEdit?: (artifact: Artifact) => void;
+}> = ({ artifact, versions, onClose, onSaveEdit }) => {
+  const [selectedVersion, setSelectedVersion] = useState<number>(
+    () => versions.find((v) => v.artifact === artifact)?.version ?? versions.length,
+  );
+  // Unsaved editor content; the preview renders it live.
+  const [draft, setDraft] = useState<string | null>(null);
+  const [tab, setTab] = useState<string>("code");
+  const [consoleLines, setConsoleLines] = useState<ConsoleLine[]>([]);
+  const [runStatus, setRunStatus] = useState<RunStatus | null>(null);
+  const [runDetail, setRunDetail] = useState<string | undefined>();
+  const runRef = useRef<RunHandle | null>(null);
+  const [shareStatus, setShareStatus] = useState<{
+    error: boolean;
+    message: string;
+    // Shown for copying by hand when the clipboard isn't available.
+    url?: string;
+  } | null>(null);
+
+  // A run must not outlive the panel.
+  useEffect(() => () => runRef.current?.stop(), []);
+
+  if (!artifact) return null;
+
+  const selected = versions[selectedVersion - 1]?.artifact ?? artifact;
+  const current = draft === null ? selected : { ...selected, content: draft };
+  const isDirty = draft !== null && draft !== selected.content;
+  const problems = validateArtifact(current);
+  const language = runnableLanguage(current);
+  const isRunning = runStatus === "loading" || runStatus === "running";
+
+  const selectVersion = (version: number) => {
+    setSelectedVersion(version);
+    setDraft(null);
+  };
+
+  const handleSaveEdit = () => {
+    if (!onSaveEdit || !isDirty) return;
+    onSaveEdit({ ...current, editedByUser: true });
+    setDraft(null);
+  };
+
+  const handleDownload = () => {
+    downloadBlob(artifactBlob(current), artifactFilename(current));
+  };
+
+  const handleDownloadStandalone = async () => {
+    try {
+      const html = await buildStandaloneReactHtml(current);
+      downloadBlob(
+        new Blob([html], { type: "text/html;charset=utf-8" }),
+        artifactFilename(current, "html"),
+      );
+    } catch (error) {
+      console.error("Error building standalone bundle:", error);
+    }
+  };
+
+  const handleShare = async () => {
+    let url: string;
+    try {
+      url = shareUrl(current);
+    } catch (error) {
+      setShareStatus({ error: true, message: (error as Error).message });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus({
+        error: false,
+        message: "Link copied. Anyone with it can view this version of the artifact.",
+      });
+    } catch {
+      setShareStatus({ error: false, message: "Copy this link to share the artifact:", url });
+    }
+  };
+
+  const handleRun = () => {
+    if (!language) return;
+    runRef.current?.stop();
+    setConsoleLines([]);
+    setRunDetail(undefined);
+    setTab("console");
+    const startedAt = performance.now();
+    runRef.current = runCode(language, current.content, {
+      onOutput: (line) => setConsoleLines((prev) => [...prev, line]),
+      onStatus: (status, detail) => {
+        setRunStatus(status);
+        setRunDetail(
+          detail ??
+            (status === "done"
+              ? `${Math.round(performance.now() - startedAt)} ms`
+              : undefined),
+        );
+      },
+    });
+  };
+
+  const renderPreview = () => {
+    const definition = getArtifactType(current.type);
+    if (!definition?.renderPreview) {
+      return <div>Preview not available for this artifact type</div>;
+    }
+    return definition.renderPreview(current);
+  };
+
+  return (
+    <Card className="w-1/2 h-full fixed right-0 top-0 z-50 flex flex-col">
+      <CardContent className="flex-1 p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">{current.title}</h2>
+          <div className="flex items-center">
+            {versions.length > 1 && (
+              <div className="flex items-center mr-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={selectedVersion <= 1}
+                  onClick={() => selectVersion(selectedVersion - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                {versions.map((v) => (
+                  <Button
+                    key={v.version}
+                    variant={v.version === selectedVersion ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => selectVersion(v.version)}
+                  >
+                    v{v.version}
+                    {v.artifact.editedByUser && "*"}
+                  </Button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={selectedVersion >= versions.length}
+                  onClick={() => selectVersion(selectedVersion + 1)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              title={`Download ${artifactFilename(current)}`}
+              onClick={handleDownload}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Copy a share link"
+              onClick={handleShare}
+            >
+              <Share2 className="h-4 w-4" />
+            </Button>
+            {current.type === "application/vnd.ant.react" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title={
+                  canBundleStandalone(current)
+                    ? "Download as standalone HTML"
+                    : isReactProject(current)
+                      ? "Standalone HTML isn't available for multi-file projects"
+                      : "Standalone HTML can't include @/components/ui imports"
+                }
+                disabled={!canBundleStandalone(current)}
+                onClick={handleDownloadStandalone}
+              >
+                <FileCode className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" onClick={onClose}>
+              <X />
+            </Button>
+          </div>
+        </div>
+        {shareStatus && (
+          <div
+            className={`flex items-start gap-2 mb-2 rounded-md p-2 text-sm ${shareStatus.error ? "bg-red-50 text-red-700" : "bg-muted"}`}
+          >
+            <div className="flex-1 min-w-0">
+              {shareStatus.message}
+              {shareStatus.url && (
+                <input
+                  readOnly
+                  value={shareStatus.url}
+                  className="mt-1 w-full rounded border bg-background px-2 py-1 text-xs"
+                  onFocus={(e) => e.target.select()}
+                />
+              )}
+            </div>
+            <button onClick={() => setShareStatus(null)} title="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <Tabs value={tab} onValueChange={setTab}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <TabsList>
+                <TabsTrigger value="code">Code</TabsTrigger>
+                {language ? (
+                  <TabsTrigger value="console">Console</TabsTrigger>
+                ) : (
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                )}
+                {versions.length > 1 && <TabsTrigger value="diff">Diff</TabsTrigger>}
+              </TabsList>
+              {language &&
+                (isRunning ? (
+                  <Button variant="outline" size="sm" onClick={() => runRef.current?.stop()}>
+                    <Square className="h-4 w-4 mr-1" /> Stop
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" onClick={handleRun}>
+                    <Play className="h-4 w-4 mr-1" /> Run
+                  </Button>
+                ))}
+            </div>
+            {isDirty && (
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  <Undo2 className="h-4 w-4 mr-1" /> Discard
+                </Button>
+                <Button size="sm" disabled={!onSaveEdit} onClick={handleSaveEdit}>
+                  <Save className="h-4 w-4 mr-1" /> Save as v{versions.length + 1}
+                </Button>
+              </div>
+            )}
+          </div>
+          {problems.map((problem) => (
+            <div
+              key={problem}
+              className="flex items-center mt-2 text-sm text-destructive"
+            >
+              <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+              {problem}
+            </div>
+          ))}
+          <TabsContent value="code">
+            <ScrollArea className="h-[calc(100vh-200px)]">
+              {isReactProject(current) ? (
+                <ProjectFiles
+                  content={current.content}
+                  readOnly={!onSaveEdit}
+                  onChange={setDraft}
+                />
+              ) : (
+                <CodeEditor
+                  value={current.content}
+                  language={highlightLanguage(current)}
+                  readOnly={!onSaveEdit}
+                  onChange={setDraft}
+                />
+              )}
+            </ScrollArea>
+          </TabsContent>
+          {language && (
+            <TabsContent value="console">
+              <ScrollArea className="h-[calc(100vh-200px)]">
+                <RunConsole lines={consoleLines} status={runStatus} detail={runDetail} />
+              </ScrollArea>
+            </TabsContent>
+          )}
+          <TabsContent value="preview">
+            <ScrollArea className="h-[calc(100vh-200px)]">
+              {renderPreview()}
+            </ScrollArea>
+          </TabsContent>
+          {versions.length > 1 && (
+            <TabsContent value="diff">
+              <ArtifactDiff
+                key={selectedVersion}
+                versions={versions}
+                selectedVersion={selectedVersion}
+              />
+            </TabsContent>
+          )}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ArtifactDisplay;
@@ -0,0 +1,222 @@
+import React, { useState } from "react";
+import {
+  ArrowUpRight,
+  MessageSquarePlus,
+  Pin,
+  PinOff,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { selectClassName } from "@/components/ProviderControls";
+import {
+  libraryTags,
+  normalizeTag,
+  searchLibrary,
+  type LibraryFilter,
+  type LibraryItem,
+} from "@/lib/artifact-library";
+import { getArtifactType, listArtifactTypes } from "@/lib/artifact-types";
+import { cn } from "@/lib/utils";
+
+const LibraryEntry: React.FC<{
+  item: LibraryItem;
+  onOpen: () => void;
+  onInsert: () => void;
+  onUpdate: (patch: Partial<Pick<LibraryItem, "tags" | "pinned">>) => void;
+  onDelete: () => void;
+  onTagClick: (tag: string) => void;
+}> = ({ item, onOpen, onInsert, onUpdate, onDelete, onTagClick }) => {
+  const [draftTag, setDraftTag] = useState<string>("");
+  const { artifact } = item;
+
+  const addTag = () => {
+    const tag = normalizeTag(draftTag);
+    setDraftTag("");
+    if (tag && !item.tags.includes(tag)) onUpdate({ tags: [...item.tags, tag] });
+  };
+
+  return (
+    <div className="space-y-1 rounded-md border p-2">
+      <div className="flex items-start gap-1">
+        <button
+          className="flex-1 min-w-0 text-left text-sm font-medium hover:underline"
+          onClick={onOpen}
+          title="Open in the artifact panel"
+        >
+          {artifact.title}
+        </button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          title={item.pinned ? "Unpin" : "Pin to the top"}
+          onClick={() => onUpdate({ pinned: !item.pinned })}
+        >
+          {item.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          title="Open"
+          onClick={onOpen}
+        >
+          <ArrowUpRight className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          title="Send with the next message"
+          onClick={onInsert}
+        >
+          <MessageSquarePlus className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0"
+          title="Remove from the library"
+          onClick={() => {
+            if (window.confirm(`Remove "${artifact.title}" from the library?`)) onDelete();
+          }}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="text-xs text-muted-foreground truncate">
+        {[
+          getArtifactType(artifact.type)?.label ?? artifact.type,
+          artifact.language,
+          item.versionCount > 1 && `v${item.versionCount}`,
+          item.conversationTitle,
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </div>
+      <pre className="max-h-10 overflow-hidden rounded bg-muted px-2 py-1 text-xs">
+        {artifact.content.slice(0, 200)}
+      </pre>
+      <div className="flex flex-wrap items-center gap-1">
+        {item.tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-0.5 rounded bg-primary/10 px-1 text-xs"
+          >
+            <button onClick={() => onTagClick(tag)} title="Show items with this tag">
+              #{tag}
+            </button>
+            <button
+              onClick={() => onUpdate({ tags: item.tags.filter((t) => t !== tag) })}
+              title="Remove tag"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draftTag}
+          placeholder="Add tag"
+          className="w-20 bg-transparent text-xs outline-none"
+          onChange={(e) => setDraftTag(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addTag();
+          }}
+          onBlur={addTag}
+        />
+      </div>
+    </div>
+  );
+};
+
+const ArtifactLibraryPanel: React.FC<{
+  items: LibraryItem[];
+  onOpen: (item: LibraryItem) => void;
+  onInsert: (item: LibraryItem) => void;
+  onUpdate: (id: string, patch: Partial<Pick<LibraryItem, "tags" | "pinned">>) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}> = ({ items, onOpen, onInsert, onUpdate, onDelete, onClose }) => {
+  const [filter, setFilter] = useState<LibraryFilter>({ query: "", type: "", tag: "" });
+  const visible = searchLibrary(items, filter);
+  const tags = libraryTags(items);
+
+  return (
+    <Card className="w-96 h-full fixed right-0 top-0 z-50 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="text-xl font-bold">Artifact library</h2>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+      <div className="space-y-2 p-4 border-b">
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            placeholder="Search titles, code and tags"
+            className="h-9 pl-8"
+          />
+        </div>
+        <div className="flex gap-2">
+          <select
+            className={cn(selectClassName, "flex-1")}
+            value={filter.type}
+            onChange={(e) => setFilter({ ...filter, type: e.target.value })}
+          >
+            <option value="">All types</option>
+            {listArtifactTypes().map((definition) => (
+              <option key={definition.mimeType} value={definition.mimeType}>
+                {definition.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className={cn(selectClassName, "flex-1")}
+            value={filter.tag}
+            disabled={tags.length === 0}
+            onChange={(e) => setFilter({ ...filter, tag: e.target.value })}
+          >
+            <option value="">All tags</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <CardContent className="space-y-2 p-4">
+          {visible.map((item) => (
+            <LibraryEntry
+              key={item.id}
+              item={item}
+              onOpen={() => onOpen(item)}
+              onInsert={() => onInsert(item)}
+              onUpdate={(patch) => onUpdate(item.id, patch)}
+              onDelete={() => onDelete(item.id)}
+              onTagClick={(tag) => setFilter({ ...filter, tag })}
+            />
+          ))}
+          {visible.length === 0 && (
+            <div className="py-8 text-center text-sm text-muted-foreground">
+              {items.length === 0
+                ? "Artifacts from every chat show up here."
+                : "No artifacts match."}
+            </div>
+          )}
+        </CardContent>
+      </ScrollArea>
+    </Card>
+  );
+};
+
+export default ArtifactLibraryPanel;
@@ -0,0 +1,43 @@
+import React from "react";
+import { FileText, X } from "lucide-react";
+
+import { attachmentDataUri, formatBytes } from "@/lib/attachments";
+import type { Attachment } from "@/lib/types";
+
+const AttachmentChip: React.FC<{
+  attachment: Attachment;
+  onRemove?: () => void;
+}> = ({ attachment, onRemove }) => (
+  <div
+    className="inline-flex items-center gap-2 max-w-[16rem] rounded-md border bg-background p-1 pr-2 text-left text-xs"
+    title={attachment.name}
+  >
+    {attachment.kind === "image" ? (
+      <img
+        src={attachmentDataUri(attachment)}
+        alt={attachment.name}
+        className="h-8 w-8 rounded object-cover"
+      />
+    ) : (
+      <div className="flex h-8 w-8 items-center justify-center rounded bg-muted">
+        <FileText className="h-4 w-4 text-muted-foreground" />
+      </div>
+    )}
+    <div className="min-w-0">
+      <div className="truncate font-medium">{attachment.name}</div>
+      <div className="text-muted-foreground">{formatBytes(attachment.size)}</div>
+    </div>
+    {onRemove && (
+      <button
+        type="button"
+        className="ml-1 text-muted-foreground hover:text-foreground"
+        onClick={onRemove}
+        title="Remove attachment"
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </div>
+);
+
+export default AttachmentChip;
@@ -0,0 +1,31 @@
+import React from "react";
+import Editor from "react-simple-code-editor";
+import hljs from "highlight.js/lib/common";
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const CodeEditor: React.FC<{
+  value: string;
+  language?: string;
+  readOnly?: boolean;
+  onChange: (value: string) => void;
+}> = ({ value, language, readOnly = false, onChange }) => (
+  <Editor
+    value={value}
+    onValueChange={onChange}
+    readOnly={readOnly}
+    highlight={(code) =>
+      language
+        ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+        : escapeHtml(code)
+    }
+    padding={16}
+    tabSize={2}
+    insertSpaces
+    className="hljs rounded font-mono text-sm min-h-full"
+    textareaClassName="outline-none"
+  />
+);
+
+export default CodeEditor;
@@ -0,0 +1,42 @@
+import React from "react";
+
+import type { CommandSuggestion } from "@/lib/slash-commands";
+import { cn } from "@/lib/utils";
+
+// Autocomplete list shown above the composer while a command is typed.
+const CommandSuggestions: React.FC<{
+  suggestions: CommandSuggestion[];
+  activeIndex: number;
+  onPick: (suggestion: CommandSuggestion) => void;
+  onHover: (index: number) => void;
+}> = ({ suggestions, activeIndex, onPick, onHover }) => (
+  <div
+    role="listbox"
+    className="absolute bottom-full left-0 right-0 mb-1 max-h-60 overflow-auto rounded-md border bg-popover p-1 shadow-md z-10"
+  >
+    {suggestions.map((suggestion, index) => (
+      <div
+        key={suggestion.insert}
+        role="option"
+        aria-selected={index === activeIndex}
+        className={cn(
+          "flex cursor-pointer items-baseline gap-2 rounded px-2 py-1 text-sm",
+          index === activeIndex && "bg-accent text-accent-foreground",
+        )}
+        // Keeps focus in the textarea.
+        onMouseDown={(e) => {
+          e.preventDefault();
+          onPick(suggestion);
+        }}
+        onMouseEnter={() => onHover(index)}
+      >
+        <span className="font-mono">{suggestion.label}</span>
+        <span className="truncate text-xs text-muted-foreground">
+          {suggestion.description}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default CommandSuggestions;
@@ -0,0 +1,243 @@
+import React, { useRef, useState } from "react";
+import {
+  Check,
+  FileDown,
+  FileJson,
+  FileText,
+  MessageSquarePlus,
+  Pencil,
+  Search,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  conversationTitle,
+  matchesSearch,
+  type Conversation,
+} from "@/lib/conversations";
+import { cn } from "@/lib/utils";
+
+const ConversationSidebar: React.FC<{
+  conversations: Conversation[];
+  activeId: string;
+  onCreate: () => void;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExportJson: (all: boolean) => void;
+  onExportMarkdown: () => void;
+  // Returns a summary of what was imported; throws with a readable error.
+  onImport: (text: string) => string;
+}> = ({
+  conversations,
+  activeId,
+  onCreate,
+  onSelect,
+  onRename,
+  onDelete,
+  onExportJson,
+  onExportMarkdown,
+  onImport,
+}) => {
+  const [query, setQuery] = useState<string>("");
+  const [importStatus, setImportStatus] = useState<{ error: boolean; message: string } | null>(
+    null,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>("");
+
+  const visible = conversations
+    .filter((conversation) => matchesSearch(conversation, query))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversationTitle(conversation));
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") commitRename();
+    if (e.key === "Escape") setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversationTitle(conversation)}"?`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setImportStatus({ error: false, message: onImport(await file.text()) });
+    } catch (error) {
+      setImportStatus({
+        error: true,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <Card className="w-64 mt-2 ml-4 flex flex-col overflow-hidden">
+      <div className="p-2 space-y-2 border-b">
+        <Button variant="outline" className="w-full" onClick={onCreate}>
+          <MessageSquarePlus className="h-4 w-4 mr-2" /> New chat
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search chats"
+            className="pl-8"
+          />
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {visible.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={cn(
+                "group flex items-center rounded-md px-2 py-1 text-sm cursor-pointer hover:bg-accent",
+                conversation.id === activeId && "bg-accent font-medium",
+              )}
+              onClick={() => onSelect(conversation.id)}
+            >
+              {editingId === conversation.id ? (
+                <>
+                  <Input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={handleRenameKeyDown}
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-7 flex-1"
+                  />
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={commitRename}>
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingId(null);
+                    }}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1 truncate text-left">
+                    {conversationTitle(conversation)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startRename(conversation);
+                    }}
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(conversation);
+                    }}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <div className="p-2 text-sm text-muted-foreground">No chats found.</div>
+          )}
+        </div>
+      </ScrollArea>
+      <div className="p-2 space-y-2 border-t">
+        {importStatus && (
+          <div
+            className={cn(
+              "flex items-start gap-1 rounded-md p-2 text-xs",
+              importStatus.error ? "bg-red-50 text-red-700" : "bg-muted text-muted-foreground",
+            )}
+          >
+            <span className="flex-1 break-words">{importStatus.message}</span>
+            <button onClick={() => setImportStatus(null)} title="Dismiss">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onExportJson(false)}
+            title="Export this chat as JSON"
+          >
+            <FileJson className="h-4 w-4 mr-1" /> JSON
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onExportMarkdown}
+            title="Export this chat as a Markdown transcript"
+          >
+            <FileText className="h-4 w-4 mr-1" /> Markdown
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onExportJson(true)}
+            title="Export all chats as JSON"
+          >
+            <FileDown className="h-4 w-4 mr-1" /> All chats
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import chats from a JSON export"
+          >
+            <Upload className="h-4 w-4 mr-1" /> Import
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+      </div>
+    </Card>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+
+import { parseCsv } from "@/lib/csv";
+
+type SortState = { column: number; direction: 1 | -1 } | null;
+
+const isNumeric = (value: string) => value.trim() !== "" && !isNaN(Number(value));
+
+const compareCells = (a: string, b: string) =>
+  isNumeric(a) && isNumeric(b)
+    ? Number(a) - Number(b)
+    : a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+// CSV artifacts render as a table whose columns sort on header click:
+// ascending, then descending, then back to the original order.
+const CsvPreview: React.FC<{ content: string }> = ({ content }) => {
+  const [sort, setSort] = useState<SortState>(null);
+  const [header = [], ...rows] = useMemo(() => parseCsv(content), [content]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    return [...rows].sort(
+      (a, b) => sort.direction * compareCells(a[sort.column] ?? "", b[sort.column] ?? ""),
+    );
+  }, [rows, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: 1 };
+      return current.direction === 1 ? { column, direction: -1 } : null;
+    });
+  };
+
+  if (header.length === 0) {
+    return <div className="text-sm text-muted-foreground">No rows to show.</div>;
+  }
+
+  return (
+    <div className="overflow-auto">
+      <table className="w-full border-collapse text-sm">
+        <thead className="sticky top-0 bg-muted">
+          <tr>
+            {header.map((name, column) => (
+              <th
+                key={column}
+                className="cursor-pointer select-none whitespace-nowrap border px-2 py-1 text-left font-medium"
+                onClick={() => toggleSort(column)}
+              >
+                <span className="inline-flex items-center gap-1">
+                  {name}
+                  {sort?.column === column &&
+                    (sort.direction === 1 ? (
+                      <ArrowUp className="h-3 w-3" />
+                    ) : (
+                      <ArrowDown className="h-3 w-3" />
+                    ))}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map((row, index) => (
+            <tr key={index} className="even:bg-muted/40">
+              {header.map((_, column) => (
+                <td
+                  key={column}
+                  className={`border px-2 py-1 ${isNumeric(row[column] ?? "") ? "text-right tabular-nums" : ""}`}
+                >
+                  {row[column] ?? ""}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-2 text-xs text-muted-foreground">
+        {rows.length} row{rows.length === 1 ? "" : "s"}
+      </div>
+    </div>
+  );
+};
+
+export default CsvPreview;
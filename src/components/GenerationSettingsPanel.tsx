@@ -0,0 +1,264 @@
+import React, { useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Toggle } from "@/components/ui/toggle";
+import { selectClassName } from "@/components/ProviderControls";
+import {
+  SAFETY_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  resolveGenerationSettings,
+  type GenerationOverrides,
+  type GenerationSettings,
+  type PromptSection,
+  type SafetyThreshold,
+} from "@/lib/generation-settings";
+import { artifactInstructions } from "@/lib/instructions";
+
+type Scope = "global" | "conversation";
+
+const Field: React.FC<{
+  label: string;
+  overridden?: boolean;
+  children: React.ReactNode;
+}> = ({ label, overridden, children }) => (
+  <label className="block space-y-1">
+    <span className="flex items-center text-sm font-medium">
+      {label}
+      {overridden && (
+        <span className="ml-2 rounded bg-primary/10 px-1 text-xs font-normal">
+          this chat
+        </span>
+      )}
+    </span>
+    {children}
+  </label>
+);
+
+// Empty means "use the provider's default".
+const parseNumber = (value: string) => {
+  if (value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const GenerationSettingsPanel: React.FC<{
+  globalSettings: GenerationSettings;
+  overrides?: GenerationOverrides;
+  onGlobalChange: (settings: GenerationSettings) => void;
+  onOverridesChange: (overrides: GenerationOverrides | undefined) => void;
+  onClose: () => void;
+}> = ({ globalSettings, overrides = {}, onGlobalChange, onOverridesChange, onClose }) => {
+  const [scope, setScope] = useState<Scope>(
+    Object.keys(overrides).length > 0 ? "conversation" : "global",
+  );
+  const settings =
+    scope === "global"
+      ? globalSettings
+      : resolveGenerationSettings(globalSettings, overrides);
+
+  const update = (patch: Partial<GenerationSettings>) => {
+    if (scope === "global") onGlobalChange({ ...globalSettings, ...patch });
+    else onOverridesChange({ ...overrides, ...patch });
+  };
+
+  const isOverridden = (key: keyof GenerationSettings) =>
+    scope === "conversation" && key in overrides;
+
+  const numberField = (
+    key: "temperature" | "topP" | "topK" | "maxOutputTokens" | "contextWindow",
+    label: string,
+    props: React.InputHTMLAttributes<HTMLInputElement>,
+  ) => (
+    <Field label={label} overridden={isOverridden(key)}>
+      <Input
+        type="number"
+        value={settings[key] ?? ""}
+        placeholder="Default"
+        onChange={(e) => update({ [key]: parseNumber(e.target.value) })}
+        {...props}
+      />
+    </Field>
+  );
+
+  const updateSection = (id: string, patch: Partial<PromptSection>) => {
+    update({
+      promptSections: settings.promptSections.map((section) =>
+        section.id === id ? { ...section, ...patch } : section,
+      ),
+    });
+  };
+
+  const addSection = () => {
+    update({
+      promptSections: [
+        ...settings.promptSections,
+        { id: crypto.randomUUID(), title: "", content: "", enabled: true },
+      ],
+    });
+  };
+
+  const removeSection = (id: string) => {
+    update({
+      promptSections: settings.promptSections.filter((section) => section.id !== id),
+    });
+  };
+
+  return (
+    <Card className="w-96 h-full fixed right-0 top-0 z-50 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="text-xl font-bold">Generation settings</h2>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-1 px-4 py-2 border-b">
+        <Toggle
+          size="sm"
+          pressed={scope === "global"}
+          onPressedChange={() => setScope("global")}
+        >
+          All chats
+        </Toggle>
+        <Toggle
+          size="sm"
+          pressed={scope === "conversation"}
+          onPressedChange={() => setScope("conversation")}
+        >
+          This chat
+        </Toggle>
+        {scope === "conversation" && Object.keys(overrides).length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => onOverridesChange(undefined)}
+          >
+            Use global
+          </Button>
+        )}
+      </div>
+      <ScrollArea className="flex-1">
+        <CardContent className="space-y-4 p-4">
+          <div className="grid grid-cols-2 gap-3">
+            {numberField("temperature", "Temperature", { min: 0, max: 2, step: 0.05 })}
+            {numberField("topP", "Top P", { min: 0, max: 1, step: 0.05 })}
+            {numberField("topK", "Top K", { min: 1, step: 1 })}
+            {numberField("maxOutputTokens", "Max output tokens", { min: 1, step: 1 })}
+            {numberField("contextWindow", "Context window", { min: 1, step: 1 })}
+          </div>
+          <Field label="Stop sequences" overridden={isOverridden("stopSequences")}>
+            <Textarea
+              value={settings.stopSequences.join("\n")}
+              placeholder="One per line"
+              rows={2}
+              onChange={(e) => update({ stopSequences: e.target.value.split("\n") })}
+            />
+          </Field>
+          <Field label="Safety (Gemini only)" overridden={isOverridden("safety")}>
+            <div className="space-y-1">
+              {SAFETY_CATEGORIES.map((category) => (
+                <div key={category.id} className="flex items-center justify-between">
+                  <span className="text-sm">{category.label}</span>
+                  <select
+                    className={selectClassName}
+                    value={settings.safety[category.id] ?? ""}
+                    onChange={(e) => {
+                      const safety = { ...settings.safety };
+                      if (e.target.value) {
+                        safety[category.id] = e.target.value as SafetyThreshold;
+                      } else {
+                        delete safety[category.id];
+                      }
+                      update({ safety });
+                    }}
+                  >
+                    <option value="">Default</option>
+                    {SAFETY_THRESHOLDS.map((threshold) => (
+                      <option key={threshold.id} value={threshold.id}>
+                        {threshold.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </Field>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">System prompt</h3>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.includeArtifactInstructions}
+                onChange={(e) =>
+                  update({ includeArtifactInstructions: e.target.checked })
+                }
+              />
+              Built-in artifact instructions
+              {isOverridden("includeArtifactInstructions") && (
+                <span className="rounded bg-primary/10 px-1 text-xs">this chat</span>
+              )}
+            </label>
+            <details className="text-xs">
+              <summary className="cursor-pointer text-muted-foreground">
+                Show built-in instructions
+              </summary>
+              <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded bg-muted p-2">
+                {artifactInstructions()}
+              </pre>
+            </details>
+            {isOverridden("promptSections") && (
+              <div className="text-xs text-muted-foreground">
+                Sections below apply to this chat only.
+              </div>
+            )}
+            {settings.promptSections.map((section) => (
+              <div key={section.id} className="space-y-1 rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={section.enabled}
+                    title="Include this section"
+                    onChange={(e) =>
+                      updateSection(section.id, { enabled: e.target.checked })
+                    }
+                  />
+                  <Input
+                    value={section.title}
+                    placeholder="Section title"
+                    className="h-8"
+                    onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title="Remove section"
+                    onClick={() => removeSection(section.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={section.content}
+                  placeholder="Instructions added to the system prompt"
+                  rows={4}
+                  onChange={(e) => updateSection(section.id, { content: e.target.value })}
+                />
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={addSection}>
+              <Plus className="h-4 w-4 mr-1" /> Add section
+            </Button>
+          </div>
+        </CardContent>
+      </ScrollArea>
+    </Card>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,27 @@
+import React, { useMemo } from "react";
+
+import { buildHtmlDocument, buildSvgDocument } from "@/lib/sandbox-document";
+
+// HTML and SVG artifacts render in an opaque-origin iframe under a strict
+// CSP, so their scripts and styles cannot touch the app or its storage.
+const HtmlPreview: React.FC<{ content: string; type: string }> = ({
+  content,
+  type,
+}) => {
+  const isSvg = type === "image/svg+xml";
+  const srcDoc = useMemo(
+    () => (isSvg ? buildSvgDocument(content) : buildHtmlDocument(content)),
+    [content, isSvg],
+  );
+
+  return (
+    <iframe
+      srcDoc={srcDoc}
+      sandbox={isSvg ? "" : "allow-scripts allow-forms allow-modals"}
+      title={isSvg ? "SVG artifact preview" : "HTML artifact preview"}
+      className="w-full h-[calc(100vh-200px)] border-0 rounded bg-white"
+    />
+  );
+};
+
+export default HtmlPreview;
@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+// Levels below this start collapsed so large documents stay readable.
+const EXPANDED_DEPTH = 2;
+
+const Primitive: React.FC<{ value: Exclude<Json, object> | null }> = ({ value }) => {
+  if (value === null) return <span className="text-muted-foreground">null</span>;
+  if (typeof value === "string") {
+    return <span className="text-green-700">{JSON.stringify(value)}</span>;
+  }
+  if (typeof value === "number") return <span className="text-blue-700">{value}</span>;
+  return <span className="text-purple-700">{String(value)}</span>;
+};
+
+const JsonNode: React.FC<{ name?: string; value: Json; depth: number }> = ({
+  name,
+  value,
+  depth,
+}) => {
+  const [expanded, setExpanded] = useState<boolean>(depth < EXPANDED_DEPTH);
+  const label = name !== undefined && <span className="text-foreground">{name}: </span>;
+
+  if (value === null || typeof value !== "object") {
+    return (
+      <div className="pl-4">
+        {label}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const entries: Array<[string, Json]> = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+
+  return (
+    <div>
+      <button
+        className="flex items-center text-left hover:bg-muted rounded"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 shrink-0" />
+        )}
+        {label}
+        {expanded ? (
+          open
+        ) : (
+          <span className="text-muted-foreground">
+            {open} {entries.length} {Array.isArray(value) ? "items" : "keys"} {close}
+          </span>
+        )}
+      </button>
+      {expanded && (
+        <>
+          <div className="ml-2 border-l">
+            {entries.map(([key, item]) => (
+              <JsonNode key={key} name={key} value={item} depth={depth + 1} />
+            ))}
+          </div>
+          <div className="pl-4">{close}</div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// JSON artifacts render as a tree with collapsible objects and arrays.
+const JsonTreePreview: React.FC<{ content: string }> = ({ content }) => {
+  const parsed = useMemo(() => {
+    try {
+      return { value: JSON.parse(content) as Json };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [content]);
+
+  if ("error" in parsed) {
+    return <div className="text-sm text-destructive">Invalid JSON: {parsed.error}</div>;
+  }
+  return (
+    <div className="font-mono text-sm">
+      <JsonNode value={parsed.value} depth={0} />
+    </div>
+  );
+};
+
+export default JsonTreePreview;
@@ -0,0 +1,18 @@
+import React from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+
+const MarkdownRenderer: React.FC<{ children: string }> = ({ children }) => {
+  return (
+    <div className="prose prose-lg mx-auto">
+      <ReactMarkdown
+        children={children}
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeHighlight]}
+      />
+    </div>
+  );
+};
+
+export default MarkdownRenderer;
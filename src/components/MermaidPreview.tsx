@@ -0,0 +1,189 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { AlertTriangle, Download, Minus, Plus, RotateCcw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { downloadBlob, svgToPngBlob } from "@/lib/download";
+
+interface MermaidError {
+  line?: number;
+  message: string;
+}
+
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.2;
+const MAX_SCALE = 8;
+const INITIAL_TRANSFORM: Transform = { scale: 1, x: 0, y: 0 };
+
+const loadMermaid = async () => {
+  const { default: mermaid } = await import("mermaid");
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: "strict",
+    // SVG text labels instead of <foreignObject> keep PNG export untainted.
+    htmlLabels: false,
+    flowchart: { htmlLabels: false },
+  });
+  return mermaid;
+};
+
+// Mermaid's jison parsers attach the position to `hash`; the newer langium
+// based ones only mention it in the message.
+const toMermaidError = (error: unknown): MermaidError => {
+  const message = error instanceof Error ? error.message : String(error);
+  const hash = (error as { hash?: { line?: number; loc?: { first_line?: number } } })
+    ?.hash;
+  if (hash?.loc?.first_line) return { line: hash.loc.first_line, message };
+  if (typeof hash?.line === "number") return { line: hash.line + 1, message };
+  const match = /line:?\s*(\d+)/i.exec(message);
+  return { line: match ? Number(match[1]) : undefined, message };
+};
+
+const clampScale = (scale: number) =>
+  Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const MermaidPreview: React.FC<{ code: string; title: string }> = ({
+  code,
+  title,
+}) => {
+  const renderId = "mermaid-" + useId().replace(/:/g, "");
+  const [svg, setSvg] = useState<string>("");
+  const [error, setError] = useState<MermaidError | null>(null);
+  const [transform, setTransform] = useState<Transform>(INITIAL_TRANSFORM);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        const mermaid = await loadMermaid();
+        await mermaid.parse(code);
+        const result = await mermaid.render(renderId, code);
+        if (cancelled) return;
+        setSvg(result.svg);
+        setError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setSvg("");
+        setError(toMermaidError(err));
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [code, renderId]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+    setTransform((prev) => ({ ...prev, scale: clampScale(prev.scale * factor) }));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    dragRef.current = { x: e.clientX - transform.x, y: e.clientY - transform.y };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setTransform((prev) => ({
+      ...prev,
+      x: e.clientX - drag.x,
+      y: e.clientY - drag.y,
+    }));
+  };
+
+  const handleMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomBy = (factor: number) => {
+    setTransform((prev) => ({ ...prev, scale: clampScale(prev.scale * factor) }));
+  };
+
+  const handleDownloadSvg = () => {
+    downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${title}.svg`);
+  };
+
+  const handleDownloadPng = async () => {
+    try {
+      downloadBlob(await svgToPngBlob(svg), `${title}.png`);
+    } catch (err) {
+      console.error("Error exporting PNG:", err);
+    }
+  };
+
+  if (error) {
+    const lines = code.split("\n");
+    return (
+      <div className="flex items-start gap-2 p-3 rounded border border-destructive/50 bg-destructive/10 text-destructive text-sm">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+        <div className="text-left">
+          <div className="font-semibold">
+            {error.line ? `Syntax error on line ${error.line}` : "Syntax error"}
+          </div>
+          {error.line && lines[error.line - 1] !== undefined && (
+            <pre className="my-1 font-mono">
+              {error.line}: {lines[error.line - 1]}
+            </pre>
+          )}
+          <pre className="whitespace-pre-wrap font-mono">{error.message}</pre>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-200px)]">
+      <div className="flex items-center gap-1 mb-2">
+        <Button variant="outline" size="sm" onClick={() => zoomBy(1 / 1.25)}>
+          <Minus className="h-4 w-4" />
+        </Button>
+        <span className="w-14 text-center text-sm">
+          {Math.round(transform.scale * 100)}%
+        </span>
+        <Button variant="outline" size="sm" onClick={() => zoomBy(1.25)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setTransform(INITIAL_TRANSFORM)}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <div className="flex-1" />
+        <Button variant="outline" size="sm" disabled={!svg} onClick={handleDownloadSvg}>
+          <Download className="h-4 w-4 mr-1" /> SVG
+        </Button>
+        <Button variant="outline" size="sm" disabled={!svg} onClick={handleDownloadPng}>
+          <Download className="h-4 w-4 mr-1" /> PNG
+        </Button>
+      </div>
+      <div
+        className="flex-1 overflow-hidden rounded border cursor-grab active:cursor-grabbing"
+        onWheel={handleWheel}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+      >
+        <div
+          className="origin-center flex justify-center p-4"
+          style={{
+            transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+          }}
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MermaidPreview;
@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowUpRight,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  Play,
+  RefreshCw,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import AttachmentChip from "@/components/AttachmentChip";
+import MarkdownRenderer from "@/components/MarkdownRenderer";
+import { parseArtifacts, stripArtifacts } from "@/lib/artifact-parser";
+import { getArtifactType } from "@/lib/artifact-types";
+import { formatTokens } from "@/lib/tokens";
+import type { Artifact, Message } from "@/lib/types";
+
+export interface BranchControls {
+  // 1-based position among the message's siblings.
+  index: number;
+  count: number;
+  onPrevious: () => void;
+  onNext: () => void;
+}
+
+const MessageComponent: React.FC<{
+  message: Message;
+  isStreaming?: boolean;
+  branch?: BranchControls;
+  // Estimated tokens this message adds to the context.
+  tokenCount?: number;
+  // Disables editing, regenerating and paging while a reply is generating.
+  actionsDisabled?: boolean;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  onContinue?: () => void;
+  onShowArtifact: (artifact: Artifact) => void;
+}> = ({
+  message,
+  isStreaming = false,
+  branch,
+  tokenCount,
+  actionsDisabled = false,
+  onEdit,
+  onRegenerate,
+  onContinue,
+  onShowArtifact,
+}) => {
+  const text = message.parts[0].text;
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>(text);
+  const artifactErrors = useMemo(
+    () =>
+      message.role === "model" && !isStreaming ? parseArtifacts(text).errors : [],
+    [message.role, isStreaming, text],
+  );
+
+  const renderMessageContent = () => {
+    let content = text;
+    content = content.replace(
+      /<antThinking>([\s\S]*?)<\/antThinking>/g,
+      "*$1*",
+    );
+    content = stripArtifacts(content);
+    return <MarkdownRenderer>{content}</MarkdownRenderer>;
+  };
+
+  const startEditing = () => {
+    setDraft(text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if ((!draft.trim() && !message.attachments?.length) || !onEdit) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    }
+    if (e.key === "Escape") setIsEditing(false);
+  };
+
+  const showControls =
+    !isStreaming && (branch || onEdit || onRegenerate || message.truncated);
+
+  return (
+    <div
+      className={`mb-4 ${message.role === "user" ? "text-right" : "text-left"}`}
+    >
+      <div
+        className={`inline-block p-3 rounded ${message.role === "user" ? "bg-primary/10" : "bg-muted"}`}
+        style={{ maxWidth: "90%" }}
+      >
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-2 mb-2">
+            {message.attachments.map((attachment) => (
+              <AttachmentChip key={attachment.id} attachment={attachment} />
+            ))}
+          </div>
+        )}
+        {message.artifactType && (
+          <div className="mb-1 text-xs text-muted-foreground">
+            Asked for: {getArtifactType(message.artifactType)?.label ?? message.artifactType}
+          </div>
+        )}
+        {isEditing ? (
+          <div className="flex flex-col gap-2 min-w-[20rem]">
+            <Textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              className="resize-none bg-background"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" disabled={actionsDisabled} onClick={submitEdit}>
+                Save &amp; send
+              </Button>
+            </div>
+          </div>
+        ) : (
+          renderMessageContent()
+        )}
+        {message.artifacts && message.artifacts.length > 0 && (
+          <div className="mt-2">
+            {message.artifacts.map((artifact, index) => (
+              <Button
+                key={index}
+                variant="outline"
+                size="sm"
+                className="mr-2 mt-2"
+                onClick={() => onShowArtifact(artifact)}
+              >
+                <ArrowUpRight className="h-4 w-4 mr-1" />
+                {artifact.title}
+              </Button>
+            ))}
+          </div>
+        )}
+        {artifactErrors.map((error) => (
+          <div
+            key={error.offset}
+            className="flex items-center mt-2 text-sm text-destructive"
+          >
+            <AlertTriangle className="h-4 w-4 mr-1 shrink-0" />
+            {error.message}
+          </div>
+        ))}
+      </div>
+      {showControls && !isEditing && (
+        <div
+          className={`flex items-center gap-1 mt-1 text-xs text-muted-foreground ${message.role === "user" ? "justify-end" : "justify-start"}`}
+        >
+          {branch && branch.count > 1 && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={actionsDisabled || branch.index <= 1}
+                onClick={branch.onPrevious}
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              <span>
+                {branch.index}/{branch.count}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={actionsDisabled || branch.index >= branch.count}
+                onClick={branch.onNext}
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </>
+          )}
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Edit and resend"
+              disabled={actionsDisabled}
+              onClick={startEditing}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {message.truncated && <span className="mx-1 italic">Stopped</span>}
+          {onContinue && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              disabled={actionsDisabled}
+              onClick={onContinue}
+            >
+              <Play className="h-3 w-3 mr-1" /> Continue
+            </Button>
+          )}
+          {onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Regenerate"
+              disabled={actionsDisabled}
+              onClick={onRegenerate}
+            >
+              <RefreshCw className="h-3 w-3" />
+            </Button>
+          )}
+          {tokenCount !== undefined && (
+            <span className="mx-1" title="Estimated tokens">
+              ~{formatTokens(tokenCount)} tokens
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageComponent;
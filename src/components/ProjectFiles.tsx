@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { FileCode, Folder } from "lucide-react";
+
+import CodeEditor from "@/components/CodeEditor";
+import {
+  parseProjectFiles,
+  projectEntry,
+  serializeProject,
+  type ProjectFile,
+} from "@/lib/react-project";
+
+interface TreeNode {
+  name: string;
+  // Set on files only.
+  path?: string;
+  children: TreeNode[];
+}
+
+const buildTree = (files: ProjectFile[]): TreeNode[] => {
+  const root: TreeNode = { name: "", children: [] };
+  for (const file of files) {
+    let node = root;
+    const segments = file.path.split("/");
+    segments.slice(0, -1).forEach((segment) => {
+      let folder = node.children.find((child) => !child.path && child.name === segment);
+      if (!folder) {
+        folder = { name: segment, children: [] };
+        node.children.push(folder);
+      }
+      node = folder;
+    });
+    node.children.push({ name: segments[segments.length - 1], path: file.path, children: [] });
+  }
+  // Folders first, then alphabetically.
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .map((node) => ({ ...node, children: sort(node.children) }))
+      .sort((a, b) => Number(!!a.path) - Number(!!b.path) || a.name.localeCompare(b.name));
+  return sort(root.children);
+};
+
+const fileLanguage = (path: string) =>
+  /\.tsx?$/.test(path) ? "typescript" : "javascript";
+
+// The code view of a multi-file React project: a file tree beside an editor
+// for the selected file. Edits are reported as the whole serialized project.
+const ProjectFiles: React.FC<{
+  content: string;
+  readOnly?: boolean;
+  onChange: (content: string) => void;
+}> = ({ content, readOnly = false, onChange }) => {
+  const { files } = parseProjectFiles(content);
+  const [selectedPath, setSelectedPath] = useState<string | undefined>(
+    () => projectEntry(files)?.path,
+  );
+  // Falls back to the entry when the selected file is gone from this version.
+  const selected =
+    files.find((file) => file.path === selectedPath) ?? projectEntry(files);
+
+  const handleChange = (value: string) => {
+    if (!selected) return;
+    onChange(
+      serializeProject(
+        files.map((file) => (file === selected ? { ...file, content: value } : file)),
+      ),
+    );
+  };
+
+  const renderNodes = (nodes: TreeNode[], depth: number): React.ReactNode =>
+    nodes.map((node) =>
+      node.path ? (
+        <button
+          key={node.path}
+          className={`flex w-full items-center gap-1 rounded px-1 py-0.5 text-left text-sm ${node.path === selected?.path ? "bg-secondary font-medium" : "hover:bg-muted"}`}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          title={node.path}
+          onClick={() => setSelectedPath(node.path)}
+        >
+          <FileCode className="h-3 w-3 shrink-0" />
+          <span className="truncate">{node.name}</span>
+        </button>
+      ) : (
+        <div key={`${depth}/${node.name}`}>
+          <div
+            className="flex items-center gap-1 px-1 py-0.5 text-sm text-muted-foreground"
+            style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          >
+            <Folder className="h-3 w-3 shrink-0" />
+            <span className="truncate">{node.name}</span>
+          </div>
+          {renderNodes(node.children, depth + 1)}
+        </div>
+      ),
+    );
+
+  return (
+    <div className="flex gap-2 min-h-full">
+      <div className="w-40 shrink-0 border-r pr-2">{renderNodes(buildTree(files), 0)}</div>
+      <div className="flex-1 min-w-0">
+        {selected && (
+          <CodeEditor
+            value={selected.content}
+            language={fileLanguage(selected.path)}
+            readOnly={readOnly}
+            onChange={handleChange}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectFiles;
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from "react";
+import { FileJson, Plus, Trash2, Upload, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  isValidTemplateName,
+  templateVariables,
+  type PromptTemplate,
+} from "@/lib/prompt-templates";
+import { SLASH_COMMANDS } from "@/lib/slash-commands";
+import { cn } from "@/lib/utils";
+
+const PromptTemplatesPanel: React.FC<{
+  templates: PromptTemplate[];
+  onChange: (templates: PromptTemplate[]) => void;
+  onExport: () => void;
+  // Returns a summary of what was imported; throws with a readable error.
+  onImport: (text: string) => string;
+  onClose: () => void;
+}> = ({ templates, onChange, onExport, onImport, onClose }) => {
+  const [importStatus, setImportStatus] = useState<{ error: boolean; message: string } | null>(
+    null,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<PromptTemplate>) => {
+    onChange(templates.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const addTemplate = () => {
+    onChange([
+      ...templates,
+      { id: crypto.randomUUID(), name: "", description: "", body: "" },
+    ]);
+  };
+
+  // Names that can't be typed after the slash, or that another template or
+  // a built-in command already uses.
+  const nameProblem = (template: PromptTemplate) => {
+    if (!isValidTemplateName(template.name)) {
+      return "Use lowercase letters, digits and dashes.";
+    }
+    if (SLASH_COMMANDS.some((command) => command.name === template.name)) {
+      return `/${template.name} is a built-in command.`;
+    }
+    if (templates.some((t) => t.id !== template.id && t.name === template.name)) {
+      return "Another template has this name.";
+    }
+    return null;
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setImportStatus({ error: false, message: onImport(await file.text()) });
+    } catch (error) {
+      setImportStatus({
+        error: true,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <Card className="w-96 h-full fixed right-0 top-0 z-50 flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b">
+        <h2 className="text-xl font-bold">Prompt templates</h2>
+        <Button variant="ghost" size="icon" onClick={onClose}>
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <CardContent className="space-y-4 p-4">
+          <p className="text-xs text-muted-foreground">
+            Type <code>/name key=value</code> in the composer to use a template.
+            Write variables as <code>{"{{key}}"}</code>, or{" "}
+            <code>{"{{key=default}}"}</code> to make them optional. Text after the
+            arguments is added to the end.
+          </p>
+          {templates.map((template) => {
+            const problem = nameProblem(template);
+            const variables = templateVariables(template.body);
+            return (
+              <div key={template.id} className="space-y-1 rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">/</span>
+                  <Input
+                    value={template.name}
+                    placeholder="name"
+                    className={cn("h-8", problem && "border-destructive")}
+                    onChange={(e) => update(template.id, { name: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    title="Delete template"
+                    onClick={() => onChange(templates.filter((t) => t.id !== template.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {problem && <div className="text-xs text-destructive">{problem}</div>}
+                <Input
+                  value={template.description}
+                  placeholder="Description"
+                  className="h-8"
+                  onChange={(e) => update(template.id, { description: e.target.value })}
+                />
+                <Textarea
+                  value={template.body}
+                  placeholder="Prompt text with {{variables}}"
+                  rows={4}
+                  onChange={(e) => update(template.id, { body: e.target.value })}
+                />
+                {variables.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Variables:{" "}
+                    {variables
+                      .map((v) => (v.default === undefined ? v.name : `${v.name} (optional)`))
+                      .join(", ")}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <Button variant="outline" size="sm" onClick={addTemplate}>
+            <Plus className="h-4 w-4 mr-1" /> Add template
+          </Button>
+        </CardContent>
+      </ScrollArea>
+      <div className="p-2 space-y-2 border-t">
+        {importStatus && (
+          <div
+            className={cn(
+              "flex items-start gap-1 rounded-md p-2 text-xs",
+              importStatus.error ? "bg-red-50 text-red-700" : "bg-muted text-muted-foreground",
+            )}
+          >
+            <span className="flex-1 break-words">{importStatus.message}</span>
+            <button onClick={() => setImportStatus(null)} title="Dismiss">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onExport}
+            disabled={templates.length === 0}
+            title="Export all templates as JSON"
+          >
+            <FileJson className="h-4 w-4 mr-1" /> Export
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            title="Import templates from a JSON export"
+          >
+            <Upload className="h-4 w-4 mr-1" /> Import
+          </Button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImportFile}
+        />
+      </div>
+    </Card>
+  );
+};
+
+export default PromptTemplatesPanel;
@@ -0,0 +1,102 @@
+import React from "react";
+import { KeyRound, Lock } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ApiKeyEntry } from "@/lib/key-vault";
+import {
+  providers,
+  type LLMProvider,
+  type ProviderId,
+  type SavedProviderConfig,
+} from "@/lib/providers";
+
+export const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm";
+
+export const ProviderControls: React.FC<{
+  provider: LLMProvider;
+  config: SavedProviderConfig;
+  // The provider's keys.
+  apiKeys: ApiKeyEntry[];
+  // The selected key is saved but the vault hasn't been unlocked yet.
+  isKeyLocked: boolean;
+  onProviderChange: (id: ProviderId) => void;
+  onConfigChange: (patch: Partial<SavedProviderConfig>) => void;
+  onManageKeys: () => void;
+}> = ({
+  provider,
+  config,
+  apiKeys,
+  isKeyLocked,
+  onProviderChange,
+  onConfigChange,
+  onManageKeys,
+}) => (
+  <div className="flex items-center gap-2 mr-4">
+    <select
+      value={provider.id}
+      onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+      className={selectClassName}
+    >
+      {Object.values(providers).map((p) => (
+        <option key={p.id} value={p.id}>
+          {p.label}
+        </option>
+      ))}
+    </select>
+    {provider.defaultBaseUrl && (
+      <Input
+        value={config.baseUrl ?? ""}
+        onChange={(e) => onConfigChange({ baseUrl: e.target.value })}
+        placeholder={provider.defaultBaseUrl}
+        className="w-36 md:w-48 lg:w-64"
+      />
+    )}
+    <select
+      value={apiKeys.some((key) => key.id === config.keyId) ? config.keyId : ""}
+      onChange={(e) => onConfigChange({ keyId: e.target.value || undefined })}
+      className={`${selectClassName} w-36 md:w-48`}
+      title="API key"
+    >
+      <option value="">
+        {provider.apiKeyRequired ? "No API key" : "No API key (optional)"}
+      </option>
+      {apiKeys.map((key) => (
+        <option key={key.id} value={key.id}>
+          {key.name}
+        </option>
+      ))}
+    </select>
+    <Button
+      variant={isKeyLocked ? "default" : "outline"}
+      size="icon"
+      onClick={onManageKeys}
+      title={isKeyLocked ? "Unlock saved API keys" : "Manage API keys"}
+    >
+      {isKeyLocked ? <Lock className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+    </Button>
+  </div>
+);
+
+export const ModelPicker: React.FC<{
+  models: string[];
+  value: string;
+  onChange: (model: string) => void;
+}> = ({ models, value, onChange }) => {
+  const options = value && !models.includes(value) ? [value, ...models] : models;
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={selectClassName}
+    >
+      {options.length === 0 && <option value="">No models available</option>}
+      {options.map((m) => (
+        <option key={m} value={m}>
+          {m}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+
+import type { SandboxEvent, SandboxErrorPhase } from "@/sandbox/protocol";
+
+const ERROR_TITLES: Record<SandboxErrorPhase, string> = {
+  load: "Preview failed to load",
+  compile: "Compile error",
+  runtime: "Runtime error",
+};
+
+const LOAD_FAILED_MESSAGE =
+  "The preview's script was blocked. The sandboxed frame requests it with Origin: null, so the server must send Access-Control-Allow-Origin: * (or null) with files under /assets/.";
+
+interface PreviewError {
+  phase: SandboxErrorPhase;
+  message: string;
+}
+
+// Renders a React artifact inside the sandbox iframe. The iframe is not
+// allowed same-origin access, so artifact code cannot reach the app's
+// storage or DOM.
+const ReactPreview: React.FC<{ code: string }> = ({ code }) => {
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const [isReady, setIsReady] = useState<boolean>(false);
+  const [error, setError] = useState<PreviewError | null>(null);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<SandboxEvent>) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      switch (event.data.type) {
+        case "loadFailed":
+          setError({ phase: "load", message: LOAD_FAILED_MESSAGE });
+          break;
+        case "ready":
+          setIsReady(true);
+          break;
+        case "rendered":
+          setError(null);
+          break;
+        case "error":
+          setError({ phase: event.data.phase, message: event.data.message });
+          break;
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  useEffect(() => {
+    if (!isReady) return;
+    setError(null);
+    iframeRef.current?.contentWindow?.postMessage({ type: "render", code }, "*");
+  }, [isReady, code]);
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-200px)]">
+      {error && (
+        <div className="flex items-start gap-2 p-3 mb-2 rounded border border-destructive/50 bg-destructive/10 text-destructive text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <div className="text-left">
+            <div className="font-semibold">{ERROR_TITLES[error.phase]}</div>
+            <pre className="whitespace-pre-wrap font-mono">{error.message}</pre>
+          </div>
+        </div>
+      )}
+      <iframe
+        ref={iframeRef}
+        src="/sandbox.html"
+        sandbox="allow-scripts allow-forms allow-modals"
+        title="React artifact preview"
+        className="flex-1 w-full border-0 rounded bg-white"
+      />
+    </div>
+  );
+};
+
+export default ReactPreview;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from "react";
+
+import type { ConsoleLine, RunStatus } from "@/lib/code-runner";
+import { cn } from "@/lib/utils";
+
+const STATUS_TEXT: Record<RunStatus, string> = {
+  loading: "Loading Python…",
+  running: "Running…",
+  done: "Finished",
+  failed: "Failed",
+  timeout: "Timed out",
+  stopped: "Stopped",
+};
+
+const LINE_CLASSES: Partial<Record<ConsoleLine["stream"], string>> = {
+  warn: "text-yellow-700",
+  error: "text-destructive",
+  stderr: "text-destructive",
+  system: "text-muted-foreground italic",
+};
+
+const RunConsole: React.FC<{
+  lines: ConsoleLine[];
+  status: RunStatus | null;
+  detail?: string;
+}> = ({ lines, status, detail }) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [lines.length]);
+
+  return (
+    <div className="font-mono text-sm">
+      {status && (
+        <div className="mb-2 text-xs text-muted-foreground">
+          {STATUS_TEXT[status]}
+          {detail && ` · ${detail}`}
+        </div>
+      )}
+      {lines.length === 0 && status !== "running" && status !== "loading" && (
+        <div className="text-muted-foreground">No output.</div>
+      )}
+      {lines.map((line, index) => (
+        <pre
+          key={index}
+          className={cn("whitespace-pre-wrap break-words", LINE_CLASSES[line.stream])}
+        >
+          {line.text}
+        </pre>
+      ))}
+      <div ref={endRef} />
+    </div>
+  );
+};
+
+export default RunConsole;
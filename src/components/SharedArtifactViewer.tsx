@@ -0,0 +1,100 @@
+import React from "react";
+import { AlertTriangle, Download, MessageSquarePlus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CodeEditor from "@/components/CodeEditor";
+import ProjectFiles from "@/components/ProjectFiles";
+import { artifactBlob, artifactFilename } from "@/lib/artifact-export";
+import { getArtifactType } from "@/lib/artifact-types";
+import { downloadBlob } from "@/lib/download";
+import { highlightLanguage } from "@/lib/highlight";
+import { isReactProject } from "@/lib/react-project";
+import { shareFragment, type SharedArtifactRoute } from "@/lib/share-link";
+
+// Read-only page for a `#share=` link. It needs nothing from storage, so it
+// works for someone who has never used the app.
+const SharedArtifactViewer: React.FC<{ route: SharedArtifactRoute }> = ({ route }) => {
+  const appHref = window.location.pathname + window.location.search;
+
+  if ("error" in route) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background p-4">
+        <Card className="max-w-md">
+          <CardContent className="space-y-4 p-6">
+            <div className="flex items-center gap-2 font-medium text-destructive">
+              <AlertTriangle className="h-5 w-5" /> Can't open this shared artifact
+            </div>
+            <p className="text-sm">{route.error.message}</p>
+            <Button variant="outline" asChild>
+              <a href={appHref}>Go to the app</a>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { artifact } = route;
+  const definition = getArtifactType(artifact.type);
+
+  return (
+    <div className="flex flex-col h-screen bg-background">
+      <div className="flex justify-between items-center p-4 bg-card shadow">
+        <div className="min-w-0">
+          <h1 className="text-xl font-bold truncate">{artifact.title}</h1>
+          <div className="text-xs text-muted-foreground">
+            Shared {definition?.label ?? artifact.type} · read-only
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => downloadBlob(artifactBlob(artifact), artifactFilename(artifact))}
+          >
+            <Download className="h-5 w-5 mr-1" /> Download
+          </Button>
+          <Button asChild>
+            <a href={appHref + shareFragment("open", route.payload)}>
+              <MessageSquarePlus className="h-5 w-5 mr-1" /> Open in new chat
+            </a>
+          </Button>
+        </div>
+      </div>
+      <Tabs
+        defaultValue={definition?.renderPreview ? "preview" : "code"}
+        className="flex-1 p-4"
+      >
+        <TabsList>
+          {definition?.renderPreview && <TabsTrigger value="preview">Preview</TabsTrigger>}
+          <TabsTrigger value="code">Code</TabsTrigger>
+        </TabsList>
+        {definition?.renderPreview && (
+          <TabsContent value="preview">
+            <ScrollArea className="h-[calc(100vh-160px)]">
+              {definition.renderPreview(artifact)}
+            </ScrollArea>
+          </TabsContent>
+        )}
+        <TabsContent value="code">
+          <ScrollArea className="h-[calc(100vh-160px)]">
+            {isReactProject(artifact) ? (
+              <ProjectFiles content={artifact.content} readOnly onChange={() => {}} />
+            ) : (
+              <CodeEditor
+                value={artifact.content}
+                language={highlightLanguage(artifact)}
+                readOnly
+                onChange={() => {}}
+              />
+            )}
+          </ScrollArea>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default SharedArtifactViewer;
@@ -0,0 +1,150 @@
+import { strToU8, zipSync } from "fflate";
+
+import { artifactExtension, getArtifactType } from "@/lib/artifact-types";
+import type { ArtifactVersion } from "@/lib/artifact-versions";
+import { replacePlaceholderUrls } from "@/lib/placeholder";
+import { isReactProject, parseProjectFiles } from "@/lib/react-project";
+import type { Artifact } from "@/lib/types";
+
+export const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "artifact";
+
+// Multi-file projects download as a zip of their files.
+export const artifactFilename = (artifact: Artifact, extension?: string) => {
+  const defaultExtension = isReactProject(artifact) ? "zip" : artifactExtension(artifact);
+  return `${slugify(artifact.identifier)}.${extension ?? defaultExtension}`;
+};
+
+const projectFiles = (artifact: Artifact, folder = ""): Record<string, Uint8Array> =>
+  Object.fromEntries(
+    parseProjectFiles(artifact.content).files.map((file) => [
+      folder + file.path,
+      strToU8(file.content),
+    ]),
+  );
+
+export const artifactBlob = (artifact: Artifact): Blob => {
+  if (isReactProject(artifact)) {
+    return new Blob([zipSync(projectFiles(artifact))], { type: "application/zip" });
+  }
+  const definition = getArtifactType(artifact.type);
+  const type = definition ? definition.fileMimeType ?? definition.mimeType : "text/plain";
+  return new Blob([artifact.content], { type: `${type};charset=utf-8` });
+};
+
+export interface ArtifactManifest {
+  exportedAt: string;
+  conversation: string;
+  artifacts: Array<{
+    identifier: string;
+    title: string;
+    type: string;
+    language?: string;
+    file: string;
+    version: number;
+    editedByUser: boolean;
+  }>;
+}
+
+// Zips the latest version of every artifact identifier together with a
+// manifest describing them.
+export const buildArtifactsZip = (
+  versions: Map<string, ArtifactVersion[]>,
+  conversation: string,
+): Blob => {
+  const files: Record<string, Uint8Array> = {};
+  const manifest: ArtifactManifest = {
+    exportedAt: new Date().toISOString(),
+    conversation,
+    artifacts: [],
+  };
+
+  for (const timeline of versions.values()) {
+    const { artifact, version } = timeline[timeline.length - 1];
+    // A project's files go in a folder of their own.
+    const file = isReactProject(artifact)
+      ? `${slugify(artifact.identifier)}/`
+      : artifactFilename(artifact);
+    if (isReactProject(artifact)) Object.assign(files, projectFiles(artifact, file));
+    else files[file] = strToU8(artifact.content);
+    manifest.artifacts.push({
+      identifier: artifact.identifier,
+      title: artifact.title,
+      type: artifact.type,
+      language: artifact.language,
+      file,
+      version,
+      editedByUser: !!artifact.editedByUser,
+    });
+  }
+  files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+};
+
+// Libraries the artifact instructions allow, loaded from a CDN so the
+// standalone bundle runs without this app.
+const STANDALONE_IMPORTS = {
+  react: "https://esm.sh/react@18.3.1",
+  "react/jsx-runtime": "https://esm.sh/react@18.3.1/jsx-runtime",
+  "react-dom": "https://esm.sh/react-dom@18.3.1",
+  "react-dom/client": "https://esm.sh/react-dom@18.3.1/client",
+  "lucide-react": "https://esm.sh/lucide-react@0.263.1?external=react",
+  recharts: "https://esm.sh/recharts@2?external=react,react-dom",
+};
+
+// shadcn/ui components only exist inside this app's preview sandbox, and
+// the bundle holds a single module.
+export const canBundleStandalone = (artifact: Artifact) =>
+  artifact.type === "application/vnd.ant.react" &&
+  !isReactProject(artifact) &&
+  !/from\s+["']@\//.test(artifact.content);
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// Builds a single HTML file that renders a React artifact on its own. The
+// source is transpiled here, so the page only needs the CDN libraries.
+export const buildStandaloneReactHtml = async (
+  artifact: Artifact,
+): Promise<string> => {
+  const { transform } = await import("sucrase");
+  const { code } = transform(replacePlaceholderUrls(artifact.content), {
+    transforms: ["jsx", "typescript"],
+    jsxRuntime: "automatic",
+    production: true,
+    filePath: "artifact.tsx",
+  });
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(artifact.title)}</title>
+    <script src="https://cdn.tailwindcss.com"></script>
+    <script type="importmap">${JSON.stringify({ imports: STANDALONE_IMPORTS })}</script>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module">
+      import { createElement, isValidElement } from "react";
+      import { createRoot } from "react-dom/client";
+
+      const source = ${JSON.stringify(code).replace(/</g, "\\u003c")};
+      const url = URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+      const { default: exported } = await import(url);
+      createRoot(document.getElementById("root")).render(
+        isValidElement(exported) ? exported : createElement(exported),
+      );
+    </script>
+  </body>
+</html>
+`;
+};
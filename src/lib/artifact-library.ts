@@ -0,0 +1,121 @@
+import { getArtifactType } from "@/lib/artifact-types";
+import { conversationTitle, type Conversation } from "@/lib/conversations";
+import type { Artifact } from "@/lib/types";
+
+// One artifact as the library knows it: the newest version of an identifier
+// within a conversation. Items outlive the conversation they came from.
+export interface LibraryItem {
+  id: string;
+  artifact: Artifact;
+  conversationId: string;
+  // As of the last time the conversation was indexed.
+  conversationTitle: string;
+  versionCount: number;
+  tags: string[];
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryFilter {
+  query: string;
+  // An artifact MIME type; empty for all types.
+  type: string;
+  tag: string;
+}
+
+export const libraryItemId = (conversationId: string, identifier: string) =>
+  `${conversationId}/${identifier}`;
+
+const sameArtifact = (a: Artifact, b: Artifact) =>
+  a.title === b.title &&
+  a.content === b.content &&
+  a.type === b.type &&
+  a.language === b.language;
+
+// Adds or refreshes the items for each conversation's artifacts, on every
+// branch. Artifacts on user messages were inserted from the library and are
+// already indexed. Returns `items` itself when nothing changed.
+export const indexConversations = (
+  items: LibraryItem[],
+  conversations: Conversation[],
+): LibraryItem[] => {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  let changed = false;
+  const now = Date.now();
+
+  for (const conversation of conversations) {
+    const latest = new Map<string, { artifact: Artifact; count: number }>();
+    for (const { message } of conversation.tree.nodes) {
+      if (message.role !== "model") continue;
+      message.artifacts?.forEach((artifact) => {
+        const count = (latest.get(artifact.identifier)?.count ?? 0) + 1;
+        latest.set(artifact.identifier, { artifact, count });
+      });
+    }
+    const title = conversationTitle(conversation);
+    latest.forEach(({ artifact, count }, identifier) => {
+      const id = libraryItemId(conversation.id, identifier);
+      const existing = byId.get(id);
+      if (
+        existing &&
+        sameArtifact(existing.artifact, artifact) &&
+        existing.versionCount === count &&
+        existing.conversationTitle === title
+      ) {
+        return;
+      }
+      changed = true;
+      byId.set(id, {
+        id,
+        artifact,
+        conversationId: conversation.id,
+        conversationTitle: title,
+        versionCount: count,
+        tags: existing?.tags ?? [],
+        pinned: existing?.pinned ?? false,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: existing && sameArtifact(existing.artifact, artifact) ? existing.updatedAt : now,
+      });
+    });
+  }
+  return changed ? [...byId.values()] : items;
+};
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, "-");
+
+export const libraryTags = (items: LibraryItem[]): string[] =>
+  [...new Set(items.flatMap((item) => item.tags))].sort();
+
+const searchText = (item: LibraryItem) =>
+  [
+    item.artifact.title,
+    item.artifact.identifier,
+    item.artifact.type,
+    getArtifactType(item.artifact.type)?.label,
+    item.artifact.language,
+    item.artifact.content,
+    item.conversationTitle,
+    ...item.tags,
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+
+// Every word of the query has to appear somewhere in the item. Pinned items
+// come first, then the most recently updated.
+export const searchLibrary = (
+  items: LibraryItem[],
+  { query, type, tag }: LibraryFilter,
+): LibraryItem[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items
+    .filter((item) => !type || item.artifact.type === type)
+    .filter((item) => !tag || item.tags.includes(tag))
+    .filter((item) => {
+      if (words.length === 0) return true;
+      const text = searchText(item);
+      return words.every((word) => text.includes(word));
+    })
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ArtifactStreamParser,
+  parseArtifacts,
+  parseAttributes,
+  stripArtifacts,
+} from "@/lib/artifact-parser";
+
+const artifact = (attributes: string, content = "hello") =>
+  `<antArtifact ${attributes}>${content}</antArtifact>`;
+
+describe("parseAttributes", () => {
+  it("accepts double, single and unquoted values", () => {
+    expect(parseAttributes(` a="one" b='two' c=three`)).toEqual({
+      a: "one",
+      b: "two",
+      c: "three",
+    });
+  });
+
+  it("keeps quotes of the other kind inside a value", () => {
+    expect(parseAttributes(`title="It's here" alt='say "hi"'`)).toEqual({
+      title: "It's here",
+      alt: 'say "hi"',
+    });
+  });
+});
+
+describe("parseArtifacts", () => {
+  it("reads attributes in any order", () => {
+    const { artifacts, errors } = parseArtifacts(
+      artifact(`title="Demo" type="text/html" identifier="demo"`),
+    );
+    expect(errors).toEqual([]);
+    expect(artifacts).toEqual([
+      {
+        identifier: "demo",
+        type: "text/html",
+        title: "Demo",
+        language: undefined,
+        content: "hello",
+      },
+    ]);
+  });
+
+  it("allows '>' inside quoted attribute values", () => {
+    const { artifacts } = parseArtifacts(
+      artifact(`identifier="cmp" type="text/html" title="a > b"`),
+    );
+    expect(artifacts[0].title).toBe("a > b");
+    expect(artifacts[0].content).toBe("hello");
+  });
+
+  it("falls back to the identifier when there is no title", () => {
+    const { artifacts } = parseArtifacts(artifact(`identifier=notes type=text/markdown`));
+    expect(artifacts[0].title).toBe("notes");
+  });
+
+  it("parses several artifacts and the text around them", () => {
+    const text = `Intro ${artifact(`identifier="a" type="text/html"`, "A")} middle ${artifact(
+      `identifier="b" type="text/html"`,
+      "B",
+    )} end`;
+    expect(parseArtifacts(text).artifacts.map((a) => a.content)).toEqual(["A", "B"]);
+    expect(stripArtifacts(text)).toBe("Intro  middle  end");
+  });
+
+  it("reports an artifact missing required attributes and skips it", () => {
+    const { artifacts, errors } = parseArtifacts(
+      `${artifact(`title="No id" type="text/html"`)}${artifact(`identifier="ok" type="text/html"`)}`,
+    );
+    expect(artifacts.map((a) => a.identifier)).toEqual(["ok"]);
+    expect(errors).toEqual([
+      expect.objectContaining({ kind: "malformed", offset: 0 }),
+    ]);
+    expect(errors[0].message).toContain("identifier");
+  });
+
+  it("reports an opening tag that is never closed with '>'", () => {
+    const text = `Before <antArtifact identifier="x" type="text/html" <p>after</p>`;
+    const { artifacts, errors } = parseArtifacts(text);
+    expect(artifacts).toEqual([]);
+    expect(errors).toEqual([
+      expect.objectContaining({ kind: "malformed", offset: text.indexOf("<antArtifact") }),
+    ]);
+  });
+
+  it("reports an artifact without its closing tag", () => {
+    const text = `Sure: <antArtifact identifier="page" type="text/html"><p>cut off`;
+    const { artifacts, errors } = parseArtifacts(text);
+    expect(artifacts).toEqual([]);
+    expect(errors).toEqual([
+      expect.objectContaining({ kind: "unterminated", offset: 6 }),
+    ]);
+    expect(errors[0].message).toContain('"page"');
+  });
+});
+
+describe("ArtifactStreamParser", () => {
+  const text = `Here you go. ${artifact(
+    `identifier="counter" type="application/vnd.ant.react" title='Counter'`,
+    "export default () => <b>1</b>;",
+  )} Done.`;
+
+  it("gives the same result for every split of the input into two chunks", () => {
+    const expected = parseArtifacts(text);
+    for (let split = 0; split <= text.length; split++) {
+      const parser = new ArtifactStreamParser();
+      parser.push(text.slice(0, split));
+      parser.push(text.slice(split));
+      expect(parser.end()).toEqual(expected);
+    }
+  });
+
+  it("handles the input arriving one character at a time", () => {
+    const parser = new ArtifactStreamParser();
+    const completed = [...text].flatMap((char) => parser.push(char));
+    expect(completed).toEqual(parseArtifacts(text).artifacts);
+    expect(parser.end().errors).toEqual([]);
+  });
+
+  it("returns artifacts as soon as their closing tag arrives", () => {
+    const parser = new ArtifactStreamParser();
+    expect(parser.push(`<antArtifact identifier="a" type="text/html">`)).toEqual([]);
+    expect(parser.push("<p>Hi")).toEqual([]);
+    expect(parser.push("</p></antArt")).toEqual([]);
+    expect(parser.push("ifact> trailing").map((a) => a.content)).toEqual(["<p>Hi</p>"]);
+  });
+
+  it("exposes the artifact still being written as pending", () => {
+    const parser = new ArtifactStreamParser();
+    parser.push(`<antArtifact identifier="a" type="text/html" title="Page">`);
+    expect(parser.pending).toMatchObject({ identifier: "a", content: "" });
+    parser.push("<h1>Title");
+    expect(parser.pending).toMatchObject({ identifier: "a", content: "<h1>Title" });
+    parser.push("</h1></antArtifact>");
+    expect(parser.pending).toBeNull();
+  });
+});
+
+describe("stripArtifacts", () => {
+  it("hides an unterminated artifact and a partial opening tag", () => {
+    expect(stripArtifacts(`Text <antArtifact identifier="a">partial`)).toBe("Text ");
+    expect(stripArtifacts("Text <antArt")).toBe("Text ");
+  });
+});
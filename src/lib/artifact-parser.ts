@@ -0,0 +1,205 @@
+import type { Artifact } from "@/lib/types";
+
+const OPEN_TAG = "<antArtifact";
+const CLOSE_TAG = "</antArtifact>";
+
+// name="value", name='value' or name=value, in any order.
+const ATTRIBUTE_REGEX = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+
+export type ArtifactParseErrorKind = "malformed" | "unterminated";
+
+export interface ArtifactParseError {
+  kind: ArtifactParseErrorKind;
+  message: string;
+  // Offset of the offending <antArtifact tag in the parsed text.
+  offset: number;
+}
+
+export interface ArtifactParseResult {
+  artifacts: Artifact[];
+  errors: ArtifactParseError[];
+}
+
+interface OpenArtifact {
+  attributes: Record<string, string>;
+  tagOffset: number;
+  contentStart: number;
+}
+
+export const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_REGEX)) {
+    attributes[match[1]] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+};
+
+// Index of the `>` closing an opening tag, skipping over quoted values.
+// Returns -1 if the tag is still incomplete and -2 if another tag starts
+// before it closes.
+const findTagEnd = (text: string, from: number): number => {
+  let quote: string | null = null;
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    } else if (char === "<") {
+      return -2;
+    }
+  }
+  return -1;
+};
+
+const toArtifact = (
+  attributes: Record<string, string>,
+  content: string,
+): Artifact => ({
+  identifier: attributes.identifier,
+  type: attributes.type,
+  title: attributes.title || attributes.identifier,
+  language: attributes.language,
+  content: content.trim(),
+});
+
+// Incremental <antArtifact> parser. Feed it the response as it streams in
+// with `push`; completed artifacts come back as soon as their closing tag
+// arrives, and `pending` exposes the one still being written.
+export class ArtifactStreamParser {
+  private text = "";
+  private cursor = 0;
+  private open: OpenArtifact | null = null;
+  readonly artifacts: Artifact[] = [];
+  readonly errors: ArtifactParseError[] = [];
+
+  push(chunk: string): Artifact[] {
+    this.text += chunk;
+    const completed: Artifact[] = [];
+
+    for (;;) {
+      if (this.open) {
+        const closeIndex = this.text.indexOf(CLOSE_TAG, this.open.contentStart);
+        if (closeIndex === -1) break;
+        const artifact = toArtifact(
+          this.open.attributes,
+          this.text.slice(this.open.contentStart, closeIndex),
+        );
+        this.artifacts.push(artifact);
+        completed.push(artifact);
+        this.cursor = closeIndex + CLOSE_TAG.length;
+        this.open = null;
+        continue;
+      }
+
+      const tagOffset = this.text.indexOf(OPEN_TAG, this.cursor);
+      if (tagOffset === -1) {
+        // Keep enough of the tail to match an opening tag split across chunks.
+        this.cursor = Math.max(this.cursor, this.text.length - OPEN_TAG.length);
+        break;
+      }
+
+      const tagEnd = findTagEnd(this.text, tagOffset + OPEN_TAG.length);
+      if (tagEnd === -1) {
+        this.cursor = tagOffset;
+        break;
+      }
+      if (tagEnd === -2) {
+        this.errors.push({
+          kind: "malformed",
+          message: "Opening <antArtifact> tag is never closed with '>'",
+          offset: tagOffset,
+        });
+        this.cursor = tagOffset + OPEN_TAG.length;
+        continue;
+      }
+
+      const attributes = parseAttributes(
+        this.text.slice(tagOffset + OPEN_TAG.length, tagEnd),
+      );
+      const missing = ["identifier", "type"].filter((name) => !attributes[name]);
+      if (missing.length > 0) {
+        this.errors.push({
+          kind: "malformed",
+          message: `<antArtifact> is missing required attribute(s): ${missing.join(", ")}`,
+          offset: tagOffset,
+        });
+        const closeIndex = this.text.indexOf(CLOSE_TAG, tagEnd);
+        this.cursor = closeIndex === -1 ? tagEnd + 1 : closeIndex + CLOSE_TAG.length;
+        continue;
+      }
+
+      this.open = { attributes, tagOffset, contentStart: tagEnd + 1 };
+    }
+
+    return completed;
+  }
+
+  // The artifact whose closing tag has not arrived yet, with its content so far.
+  get pending(): Artifact | null {
+    if (!this.open) return null;
+    return toArtifact(
+      this.open.attributes,
+      this.text.slice(this.open.contentStart),
+    );
+  }
+
+  // Call once the stream is finished to report anything left open.
+  end(): ArtifactParseResult {
+    if (this.open) {
+      this.errors.push({
+        kind: "unterminated",
+        message: `Artifact "${this.open.attributes.identifier}" is missing its closing </antArtifact> tag`,
+        offset: this.open.tagOffset,
+      });
+      this.open = null;
+    } else {
+      const tagOffset = this.text.indexOf(OPEN_TAG, this.cursor);
+      if (tagOffset !== -1) {
+        this.errors.push({
+          kind: "malformed",
+          message: "Opening <antArtifact> tag is never closed with '>'",
+          offset: tagOffset,
+        });
+      }
+    }
+    this.cursor = this.text.length;
+    return { artifacts: this.artifacts, errors: this.errors };
+  }
+}
+
+export const parseArtifacts = (text: string): ArtifactParseResult => {
+  const parser = new ArtifactStreamParser();
+  parser.push(text);
+  return parser.end();
+};
+
+// A whole artifact, from its opening tag (whose quoted values may hold '>')
+// to its closing tag.
+const COMPLETE_ARTIFACT_REGEX =
+  /<antArtifact\b((?:[^>"']|"[^"]*"|'[^']*')*)>[\s\S]*?<\/antArtifact>/g;
+
+// Replaces every complete artifact in `text` with `replacement`, given its
+// attributes. Unterminated artifacts are left as they are, so a stopped reply
+// can still be continued.
+export const replaceArtifacts = (
+  text: string,
+  replacement: (attributes: Record<string, string>) => string,
+): string =>
+  text.replace(COMPLETE_ARTIFACT_REGEX, (_, attributes: string) =>
+    replacement(parseAttributes(attributes)),
+  );
+
+// Removes artifact bodies from a (possibly still streaming) response so only
+// the conversational text is rendered inline.
+export const stripArtifacts = (text: string): string => {
+  const stripped = text.replace(/<antArtifact\b[\s\S]*?(?:<\/antArtifact>|$)/g, "");
+  for (let length = OPEN_TAG.length - 1; length > 1; length--) {
+    if (stripped.endsWith(OPEN_TAG.slice(0, length))) {
+      return stripped.slice(0, -length);
+    }
+  }
+  return stripped;
+};
@@ -0,0 +1,197 @@
+import { createElement } from "react";
+
+import CsvPreview from "@/components/CsvPreview";
+import HtmlPreview from "@/components/HtmlPreview";
+import JsonTreePreview from "@/components/JsonTreePreview";
+import MarkdownRenderer from "@/components/MarkdownRenderer";
+import MermaidPreview from "@/components/MermaidPreview";
+import ReactPreview from "@/components/ReactPreview";
+import type { ArtifactTypeDefinition } from "@/lib/artifact-types/registry";
+import { parseCsv } from "@/lib/csv";
+import { isReactProject, validateProject } from "@/lib/react-project";
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  bash: "sh",
+  c: "c",
+  cpp: "cpp",
+  "c++": "cpp",
+  csharp: "cs",
+  "c#": "cs",
+  css: "css",
+  dart: "dart",
+  go: "go",
+  html: "html",
+  java: "java",
+  javascript: "js",
+  js: "js",
+  json: "json",
+  jsx: "jsx",
+  kotlin: "kt",
+  lua: "lua",
+  markdown: "md",
+  php: "php",
+  powershell: "ps1",
+  python: "py",
+  py: "py",
+  r: "r",
+  ruby: "rb",
+  rust: "rs",
+  scala: "scala",
+  scss: "scss",
+  shell: "sh",
+  sh: "sh",
+  sql: "sql",
+  swift: "swift",
+  toml: "toml",
+  tsx: "tsx",
+  typescript: "ts",
+  ts: "ts",
+  xml: "xml",
+  yaml: "yml",
+  yml: "yml",
+};
+
+export const builtinArtifactTypes: ArtifactTypeDefinition[] = [
+  {
+    mimeType: "application/vnd.ant.code",
+    label: "Code",
+    alias: "code",
+    promptNotes: [
+      "Use for code snippets or scripts in any programming language.",
+      "Include the language name as the value of the language attribute (e.g., language=\"python\").",
+      "Do not use triple backticks when putting code in an artifact.",
+      "JavaScript, TypeScript and Python code can be run in the browser by the user, with console.log/print output shown in a console. There is no DOM, network access or input(), and Python has only its standard library.",
+    ],
+    extension: (artifact) =>
+      LANGUAGE_EXTENSIONS[artifact.language?.toLowerCase() ?? ""] ?? "txt",
+    fileMimeType: "text/plain",
+    validate: (artifact) =>
+      artifact.language ? [] : ["Code artifacts should name their language."],
+  },
+  {
+    mimeType: "text/markdown",
+    label: "Documents",
+    alias: "markdown",
+    promptNotes: [
+      "Plain text, Markdown, or other formatted text documents",
+    ],
+    extension: "md",
+    highlightLanguage: "markdown",
+    renderPreview: (artifact) => createElement(MarkdownRenderer, { children: artifact.content }),
+  },
+  {
+    mimeType: "text/html",
+    label: "HTML",
+    alias: "html",
+    promptNotes: [
+      "The user interface can render single file HTML pages placed within the artifact tags. HTML, JS, and CSS should be in a single file when using the text/html type.",
+      "Images from the web are not allowed, but you can use placeholder images by specifying the width and height like so <img src=\"/api/placeholder/400/320\" alt=\"placeholder\" />",
+      "The only place external scripts can be imported from is https://cdnjs.cloudflare.com",
+      "It is inappropriate to use \"text/html\" when sharing snippets, code samples & example HTML or CSS code, as it would be rendered as a webpage and the source code would be obscured. The assistant should instead use \"application/vnd.ant.code\" defined above.",
+    ],
+    extension: "html",
+    highlightLanguage: "xml",
+    renderPreview: (artifact) =>
+      createElement(HtmlPreview, { content: artifact.content, type: artifact.type }),
+  },
+  {
+    mimeType: "image/svg+xml",
+    label: "SVG",
+    alias: "svg",
+    promptNotes: [
+      "The user interface will render the Scalable Vector Graphics (SVG) image within the artifact tags.",
+      "The assistant should specify the viewbox of the SVG rather than defining a width/height",
+    ],
+    extension: "svg",
+    highlightLanguage: "xml",
+    renderPreview: (artifact) =>
+      createElement(HtmlPreview, { content: artifact.content, type: artifact.type }),
+    validate: (artifact) =>
+      /<svg[\s>]/i.test(artifact.content) ? [] : ["The content has no <svg> element."],
+  },
+  {
+    mimeType: "application/vnd.ant.mermaid",
+    label: "Mermaid Diagrams",
+    alias: "mermaid",
+    promptNotes: [
+      "The user interface will render Mermaid diagrams placed within the artifact tags.",
+      "Do not put Mermaid code in a code block when using artifacts.",
+    ],
+    extension: "mmd",
+    fileMimeType: "text/plain",
+    // Syntax errors are reported by the renderer, with line numbers.
+    renderPreview: (artifact) =>
+      createElement(MermaidPreview, { code: artifact.content, title: artifact.title }),
+  },
+  {
+    mimeType: "application/vnd.ant.react",
+    label: "React Components",
+    alias: "react",
+    promptNotes: [
+      "Use this for displaying either: React elements, e.g. <strong>Hello World!</strong>, React pure functional components, e.g. () => <strong>Hello World!</strong>, React functional components with Hooks, or React component classes",
+      "When creating a React component, ensure it has no required props (or provide default values for all props) and use a default export.",
+      "Use Tailwind classes for styling. DO NOT USE ARBITRARY VALUES (e.g. h-[600px]).",
+      "Base React is available to be imported. To use hooks, first import it at the top of the artifact, e.g. import { useState } from \"react\"",
+      "The lucide-react@0.263.1 library is available to be imported, e.g. import { Camera } from \"lucide-react\" & <Camera color=\"red\" size={48} />",
+      "The recharts charting library is available to be imported, e.g. import { LineChart, XAxis, ... } from 'recharts' & <LineChart ...><XAxis dataKey=\"name\"> ...",
+      "The assistant can use prebuilt components from the shadcn/ui library after it is imported: import { Alert, AlertDescription, AlertTitle, AlertDialog, AlertDialogAction } from '@/components/ui/alert';. If using components from the shadcn/ui library, the assistant mentions this to the user and offers to help them install the components if necessary.",
+      "NO OTHER LIBRARIES (e.g. zod, hookform) ARE INSTALLED OR ABLE TO BE IMPORTED.",
+      "Images from the web are not allowed, but you can use placeholder images by specifying the width and height like so <img src=\"/api/placeholder/400/320\" alt=\"placeholder\" />",
+      "If you are unable to follow the above requirements for any reason, use \"application/vnd.ant.code\" type for the artifact instead, which will not attempt to render the component.",
+      "For larger apps, split the code into a project of several files: wrap each file in an <antFile> tag inside the artifact, e.g. <antFile path=\"App.tsx\">...</antFile><antFile path=\"components/Chart.tsx\">...</antFile>. App.tsx is the entry point and must default-export the root component. Files import each other with relative paths, e.g. import Chart from \"./components/Chart\". Only .tsx, .ts, .jsx and .js files are supported.",
+      "To update a project, reuse its identifier and include only the files that change: each replaces the file with the same path and the other files are kept. Remove a file with <antFile path=\"components/Old.tsx\" delete=\"true\" />.",
+    ],
+    extension: "tsx",
+    fileMimeType: "text/plain",
+    highlightLanguage: "typescript",
+    renderPreview: (artifact) => createElement(ReactPreview, { code: artifact.content }),
+    validate: (artifact) =>
+      isReactProject(artifact)
+        ? validateProject(artifact.content)
+        : /export\s+default\b/.test(artifact.content)
+          ? []
+          : ["The component has no default export, so there is nothing to render."],
+  },
+  {
+    mimeType: "text/csv",
+    label: "CSV Tables",
+    alias: "csv",
+    promptNotes: [
+      "Use for tabular data the user may want to sort, filter or open in a spreadsheet.",
+      "The first row must be a header row naming every column.",
+      "Quote fields that contain commas, quotes or line breaks, and double any quotes inside them.",
+    ],
+    extension: "csv",
+    renderPreview: (artifact) => createElement(CsvPreview, { content: artifact.content }),
+    validate: (artifact) => {
+      const [header = [], ...rows] = parseCsv(artifact.content);
+      const index = rows.findIndex((row) => row.length !== header.length);
+      return index === -1
+        ? []
+        : [
+            `Row ${index + 2} has ${rows[index].length} columns, but the header has ${header.length}.`,
+          ];
+    },
+  },
+  {
+    mimeType: "application/json",
+    label: "JSON",
+    alias: "json",
+    promptNotes: [
+      "Use for structured data, configuration files or API payloads the user wants to keep.",
+      "The content must be valid JSON: no comments, trailing commas or surrounding code fences.",
+    ],
+    extension: "json",
+    highlightLanguage: "json",
+    renderPreview: (artifact) =>
+      createElement(JsonTreePreview, { content: artifact.content }),
+    validate: (artifact) => {
+      try {
+        JSON.parse(artifact.content);
+        return [];
+      } catch (error) {
+        return [`Invalid JSON: ${error instanceof Error ? error.message : error}`];
+      }
+    },
+  },
+];
@@ -0,0 +1,14 @@
+import { builtinArtifactTypes } from "@/lib/artifact-types/builtin";
+import { registerArtifactType } from "@/lib/artifact-types/registry";
+
+builtinArtifactTypes.forEach(registerArtifactType);
+
+export {
+  artifactExtension,
+  findArtifactTypeByAlias,
+  getArtifactType,
+  listArtifactTypes,
+  registerArtifactType,
+  validateArtifact,
+  type ArtifactTypeDefinition,
+} from "@/lib/artifact-types/registry";
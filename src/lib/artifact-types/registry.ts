@@ -0,0 +1,61 @@
+import type React from "react";
+
+import type { Artifact } from "@/lib/types";
+
+// Everything the app knows about one artifact type. Registering a
+// definition makes the type part of the system prompt, the preview tab,
+// downloads and the code editor.
+export interface ArtifactTypeDefinition {
+  // The value of the artifact's `type` attribute.
+  mimeType: string;
+  // Heading the type is listed under in the system prompt.
+  label: string;
+  // Short name for the /artifact command, e.g. "react".
+  alias: string;
+  // Bullet points telling the model when and how to use the type.
+  promptNotes: string[];
+  // File extension for downloads, without the dot.
+  extension: string | ((artifact: Pick<Artifact, "type" | "language">) => string);
+  // MIME type of downloaded files, when it differs from `mimeType`.
+  fileMimeType?: string;
+  // Highlight.js language for the editor when the artifact has no
+  // `language` attribute.
+  highlightLanguage?: string;
+  // Omitted for types that have nothing to show beyond their code.
+  renderPreview?: (artifact: Artifact) => React.ReactNode;
+  // Returns problems worth showing to the user; an empty list means valid.
+  validate?: (artifact: Artifact) => string[];
+}
+
+const registry = new Map<string, ArtifactTypeDefinition>();
+
+// Registering a MIME type again replaces the earlier definition.
+export const registerArtifactType = (definition: ArtifactTypeDefinition) => {
+  registry.set(definition.mimeType, definition);
+};
+
+export const getArtifactType = (mimeType: string): ArtifactTypeDefinition | undefined =>
+  registry.get(mimeType);
+
+// In registration order, which is the order the system prompt lists them.
+export const listArtifactTypes = (): ArtifactTypeDefinition[] => [...registry.values()];
+
+export const findArtifactTypeByAlias = (
+  alias: string,
+): ArtifactTypeDefinition | undefined =>
+  listArtifactTypes().find(
+    (definition) => definition.alias === alias.toLowerCase() || definition.mimeType === alias,
+  );
+
+export const validateArtifact = (artifact: Artifact): string[] => {
+  const definition = getArtifactType(artifact.type);
+  if (!definition) return [`Unknown artifact type "${artifact.type}".`];
+  return definition.validate?.(artifact) ?? [];
+};
+
+export const artifactExtension = (
+  artifact: Pick<Artifact, "type" | "language">,
+): string => {
+  const extension = getArtifactType(artifact.type)?.extension ?? "txt";
+  return typeof extension === "function" ? extension(artifact) : extension;
+};
@@ -0,0 +1,25 @@
+import type { Artifact, Message } from "@/lib/types";
+
+export interface ArtifactVersion {
+  artifact: Artifact;
+  messageIndex: number;
+  // 1-based position in the identifier's timeline.
+  version: number;
+}
+
+// Groups every artifact in the conversation by identifier, oldest first. The
+// instructions ask the model to reuse an identifier when it updates an
+// artifact, so each group is that artifact's edit history.
+export const collectArtifactVersions = (
+  messages: Message[],
+): Map<string, ArtifactVersion[]> => {
+  const versions = new Map<string, ArtifactVersion[]>();
+  messages.forEach((message, messageIndex) => {
+    message.artifacts?.forEach((artifact) => {
+      const timeline = versions.get(artifact.identifier) ?? [];
+      timeline.push({ artifact, messageIndex, version: timeline.length + 1 });
+      versions.set(artifact.identifier, timeline);
+    });
+  });
+  return versions;
+};
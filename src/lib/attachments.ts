@@ -0,0 +1,90 @@
+import type { Attachment } from "@/lib/types";
+
+export const MAX_ATTACHMENTS = 10;
+// Gemini rejects requests over 20MB, inline data included.
+export const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+export const MAX_TEXT_BYTES = 512 * 1024;
+// Images are sent base64-encoded, a third larger than the file, so this
+// keeps one message's attachments inside that limit with room for the text.
+export const MAX_MESSAGE_BYTES = 14 * 1024 * 1024;
+
+// Image formats Gemini accepts as inline data.
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"];
+
+const TEXT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-sh",
+  "application/x-yaml",
+  "image/svg+xml",
+];
+
+// Source files often come without a useful MIME type.
+const TEXT_EXTENSIONS =
+  /\.(txt|md|markdown|csv|tsv|json|jsonl|ya?ml|toml|xml|html?|css|scss|less|svg|[cm]?[jt]sx?|py|rb|go|rs|java|kt|swift|c|cc|cpp|h|hpp|cs|php|sh|bash|zsh|sql|graphql|vue|svelte|ini|env|log|mmd)$/i;
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const attachmentKind = (file: File): Attachment["kind"] | null => {
+  if (IMAGE_TYPES.includes(file.type)) return "image";
+  if (file.type.startsWith("text/") || TEXT_TYPES.includes(file.type)) return "text";
+  if (TEXT_EXTENSIONS.test(file.name)) return "text";
+  return null;
+};
+
+const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Reads a dropped, pasted or picked file. Throws AttachmentError when the
+// file type isn't supported or the file is over its size limit.
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  const kind = attachmentKind(file);
+  if (!kind) {
+    throw new AttachmentError(
+      `${file.name || "This file"} isn't supported. Attach PNG, JPEG, WebP or HEIC images, or text files.`,
+    );
+  }
+  const limit = kind === "image" ? MAX_IMAGE_BYTES : MAX_TEXT_BYTES;
+  if (file.size > limit) {
+    throw new AttachmentError(
+      `${file.name} is ${formatBytes(file.size)}; ${kind} attachments are limited to ${formatBytes(limit)}.`,
+    );
+  }
+  return {
+    id: crypto.randomUUID(),
+    // Pasted screenshots have a generic name.
+    name: file.name || `pasted-${kind}`,
+    mimeType: file.type || "text/plain",
+    size: file.size,
+    kind,
+    data: kind === "image" ? await readAsBase64(file) : await file.text(),
+  };
+};
+
+export const attachmentDataUri = (attachment: Attachment) =>
+  `data:${attachment.mimeType};base64,${attachment.data}`;
+
+// The labelled text part a text attachment is sent as.
+export const attachmentToText = (attachment: Attachment) =>
+  `--- Attached file: ${attachment.name} ---\n${attachment.data}\n--- End of ${attachment.name} ---`;
@@ -0,0 +1,153 @@
+import type { Artifact } from "@/lib/types";
+import type {
+  OutputStream,
+  RunnerFrameEvent,
+  RunnerFrameRequest,
+  RunnerLanguage,
+} from "@/runner/protocol";
+
+export const RUN_TIMEOUT_MS = 10_000;
+
+const LANGUAGES: Record<string, RunnerLanguage> = {
+  javascript: "javascript",
+  js: "javascript",
+  typescript: "typescript",
+  ts: "typescript",
+  python: "python",
+  py: "python",
+};
+
+export const runnableLanguage = (
+  artifact: Pick<Artifact, "type" | "language">,
+): RunnerLanguage | undefined =>
+  artifact.type === "application/vnd.ant.code"
+    ? LANGUAGES[artifact.language?.toLowerCase() ?? ""]
+    : undefined;
+
+export interface ConsoleLine {
+  stream: OutputStream | "system";
+  text: string;
+}
+
+export type RunStatus = "loading" | "running" | "done" | "failed" | "timeout" | "stopped";
+
+export interface RunHandle {
+  stop: () => void;
+}
+
+const FRAME_TIMEOUT_MS = 20_000;
+
+// Code runs in workers started by a hidden runner iframe. Like the React
+// preview sandbox it has an opaque origin, so run code can't reach the app's
+// storage, and its CSP blocks network access. The iframe is kept once
+// loaded, so Python's runtime stays loaded between runs.
+let runnerFrame: Promise<Window> | null = null;
+
+const loadRunnerFrame = (): Promise<Window> => {
+  runnerFrame ??= new Promise<Window>((resolve, reject) => {
+    const iframe = document.createElement("iframe");
+    iframe.src = "/runner.html";
+    iframe.setAttribute("sandbox", "allow-scripts");
+    iframe.title = "Code runner";
+    iframe.hidden = true;
+
+    const timeout = setTimeout(() => {
+      window.removeEventListener("message", handleReady);
+      iframe.remove();
+      runnerFrame = null;
+      reject(
+        new Error(
+          "The code runner failed to start. Its sandboxed frame loads scripts with Origin: null, so the server must send Access-Control-Allow-Origin: * (or null) with files under /assets/ and /pyodide/.",
+        ),
+      );
+    }, FRAME_TIMEOUT_MS);
+
+    const handleReady = (event: MessageEvent<RunnerFrameEvent>) => {
+      if (event.source !== iframe.contentWindow || event.data?.type !== "ready") return;
+      clearTimeout(timeout);
+      window.removeEventListener("message", handleReady);
+      resolve(iframe.contentWindow!);
+    };
+
+    window.addEventListener("message", handleReady);
+    document.body.appendChild(iframe);
+  });
+  return runnerFrame;
+};
+
+// Runs `code` in the runner and reports output and status changes. The
+// timeout starts once the code starts, not while Python loads; a run that
+// exceeds it has its worker terminated.
+export const runCode = (
+  language: RunnerLanguage,
+  code: string,
+  {
+    onOutput,
+    onStatus,
+    timeoutMs = RUN_TIMEOUT_MS,
+  }: {
+    onOutput: (line: ConsoleLine) => void;
+    onStatus: (status: RunStatus, detail?: string) => void;
+    timeoutMs?: number;
+  },
+): RunHandle => {
+  const runId = crypto.randomUUID();
+  let runner: Window | null = null;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let finished = false;
+
+  const finish = (status: RunStatus, detail?: string, stop = false) => {
+    if (finished) return;
+    finished = true;
+    clearTimeout(timeout);
+    window.removeEventListener("message", handleMessage);
+    if (stop) runner?.postMessage({ type: "stop", runId } satisfies RunnerFrameRequest, "*");
+    onStatus(status, detail);
+  };
+
+  const handleMessage = (message: MessageEvent<RunnerFrameEvent>) => {
+    if (!runner || message.source !== runner) return;
+    if (message.data?.type !== "run" || message.data.runId !== runId) return;
+    const { event } = message.data;
+    switch (event.type) {
+      case "loading":
+        onStatus("loading");
+        break;
+      case "started":
+        onStatus("running");
+        timeout = setTimeout(
+          () => finish("timeout", `Stopped after ${timeoutMs / 1000}s`, true),
+          timeoutMs,
+        );
+        break;
+      case "output":
+        onOutput({ stream: event.stream, text: event.text });
+        break;
+      case "done":
+        finish("done");
+        break;
+      case "error":
+        onOutput({ stream: "error", text: event.message });
+        finish("failed");
+        break;
+    }
+  };
+
+  window.addEventListener("message", handleMessage);
+  loadRunnerFrame().then(
+    (frame) => {
+      if (finished) return;
+      runner = frame;
+      runner.postMessage(
+        { type: "run", runId, language, code } satisfies RunnerFrameRequest,
+        "*",
+      );
+    },
+    (error: Error) => {
+      onOutput({ stream: "error", text: error.message });
+      finish("failed");
+    },
+  );
+
+  return { stop: () => finish("stopped", undefined, true) };
+};
@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  assembleContext,
+  dedupeArtifacts,
+  prepareContext,
+  type ContextSummary,
+} from "@/lib/context-window";
+import type { MessageNode } from "@/lib/message-tree";
+import { messageToText } from "@/lib/providers/history";
+import { estimateTokens, messageTokens } from "@/lib/tokens";
+import type { Artifact, Message } from "@/lib/types";
+
+const V1 = "const version = 'first';".repeat(20);
+const V2 = "const version = 'second';".repeat(20);
+
+const artifact = (content: string): Artifact => ({
+  identifier: "script",
+  type: "application/vnd.ant.code",
+  title: "Script",
+  language: "typescript",
+  content,
+});
+
+const reply = (content: string): Message => ({
+  role: "model",
+  parts: [
+    {
+      text: `Done.\n<antArtifact identifier="script" type="application/vnd.ant.code" language="typescript" title="Script">\n${content}\n</antArtifact>`,
+    },
+  ],
+  artifacts: [artifact(content)],
+});
+
+const messages: Message[] = [
+  { role: "user", parts: [{ text: "Write a script" }] },
+  reply(V1),
+  { role: "user", parts: [{ text: "Change it" }] },
+  reply(V2),
+];
+
+const nodes: MessageNode[] = messages.map((message, i) => ({
+  id: `n${i}`,
+  parentId: i === 0 ? null : `n${i - 1}`,
+  message,
+}));
+
+const sentText = (history: Message[]) => history.map(messageToText).join("\n");
+
+describe("dedupeArtifacts", () => {
+  it("sends only the latest version of each artifact identifier", () => {
+    const text = sentText(dedupeArtifacts(messages));
+    expect(text).not.toContain(V1);
+    expect(text.split(V2)).toHaveLength(2);
+    expect(text).toContain("[Superseded by a later version of this artifact.]");
+  });
+});
+
+describe("assembleContext", () => {
+  it("counts the latest artifact once and superseded versions not at all", () => {
+    const { history, tokens } = assembleContext(nodes, "");
+    expect(tokens).toBe(history.reduce((sum, m) => sum + messageTokens(m), 0));
+    expect(tokens).toBeGreaterThan(estimateTokens(V2));
+    expect(tokens).toBeLessThan(estimateTokens(V2) + 100);
+  });
+
+  it("counts a reply's artifact once, not also through its inline copy", () => {
+    expect(messageTokens(reply(V2))).toBeLessThan(estimateTokens(V2) + 50);
+  });
+});
+
+describe("prepareContext", () => {
+  // Eight alternating turns of 100 tokens each; the budget fits six.
+  const turns: MessageNode[] = Array.from({ length: 8 }, (_, i) => ({
+    id: `t${i}`,
+    parentId: i === 0 ? null : `t${i - 1}`,
+    message: {
+      role: i % 2 === 0 ? "user" : "model",
+      parts: [{ text: `turn ${i} `.padEnd(400, ".") }],
+    },
+  }));
+  const prompt: Message = { role: "user", parts: [{ text: "Next" }] };
+  const budget = { contextWindow: 600, reservedForOutput: 0 };
+  const texts = (history: Message[]) => history.map((m) => m.parts[0].text.slice(0, 7));
+
+  type Summarize = (messages: Message[]) => Promise<string>;
+
+  const prepare = (summarize: Summarize, summary?: ContextSummary) => prepareContext({ nodes: turns, systemPrompt: "", prompt, budget, summary, summarize });
+
+  it("sends everything when it fits", async () => {
+    const summarize = vi.fn();
+    const prepared = await prepareContext({
+      nodes: turns.slice(0, 4),
+      systemPrompt: "",
+      prompt,
+      budget,
+      summarize,
+    });
+    expect(prepared.history).toHaveLength(4);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it("keeps the newest turns within half the budget, starting on a user turn", async () => {
+    const summarize = vi.fn<Summarize>(async () => "They talked.");
+    const prepared = await prepare(summarize);
+    // Turns 5 to 7 fill half the budget, but turn 5 is the model's.
+    expect(texts(summarize.mock.calls[0][0])).toEqual([
+      "turn 0 ",
+      "turn 1 ",
+      "turn 2 ",
+      "turn 3 ",
+      "turn 4 ",
+      "turn 5 ",
+    ]);
+    expect(prepared.summary).toEqual({ throughNodeId: "t5", text: "They talked." });
+    expect(prepared.history[0].parts[0].text).toContain("They talked.");
+    expect(texts(prepared.history.slice(2))).toEqual(["turn 6 ", "turn 7 "]);
+  });
+
+  it("extends an existing summary instead of summarizing its turns again", async () => {
+    const summarize = vi.fn<Summarize>(async () => "Longer story.");
+    const prepared = await prepare(summarize, { throughNodeId: "t1", text: "Old story." });
+    const [sent] = summarize.mock.calls[0];
+    expect(sent[0].parts[0].text).toContain("Old story.");
+    expect(texts(sent.slice(2))).toEqual(["turn 2 ", "turn 3 ", "turn 4 ", "turn 5 "]);
+    expect(prepared.summary).toEqual({ throughNodeId: "t5", text: "Longer story." });
+  });
+
+  it("reuses a summary that still makes the history fit", async () => {
+    const summarize = vi.fn();
+    const summary = { throughNodeId: "t5", text: "Short." };
+    expect((await prepare(summarize, summary)).summary).toBe(summary);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it("leaves out the older turns but keeps their artifacts when summarizing fails", async () => {
+    const withArtifact = turns.map((node, i) =>
+      i === 1 ? { ...node, message: reply(V1) } : node,
+    );
+    const prepared = await prepareContext({
+      nodes: withArtifact,
+      systemPrompt: "",
+      prompt,
+      budget,
+      summarize: () => Promise.reject(new Error("Quota exceeded")),
+    });
+    expect(prepared.summary).toBeUndefined();
+    expect(prepared.history[0].parts[0].text).toContain("Not available");
+    expect(prepared.history[0].artifacts).toEqual([artifact(V1)]);
+    expect(texts(prepared.history.slice(2))).toEqual(["turn 6 ", "turn 7 "]);
+  });
+});
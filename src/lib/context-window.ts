@@ -0,0 +1,171 @@
+import type { MessageNode } from "@/lib/message-tree";
+import { estimateTokens, messageTokens } from "@/lib/tokens";
+import type { Artifact, Message } from "@/lib/types";
+
+// A model-written summary standing in for the start of a conversation.
+export interface ContextSummary {
+  // The last message the summary covers.
+  throughNodeId: string;
+  text: string;
+}
+
+export interface ContextBudget {
+  contextWindow: number;
+  // Tokens kept free for the reply.
+  reservedForOutput: number;
+}
+
+export interface PreparedContext {
+  history: Message[];
+  tokens: number;
+  // Set when the history starts with a summary.
+  summary?: ContextSummary;
+}
+
+export const SUMMARY_INSTRUCTION =
+  "You summarize conversations between a user and an AI assistant so the assistant can continue them with less context.";
+
+export const SUMMARY_PROMPT =
+  "Summarize the conversation so far for your own future reference. Keep every decision, requirement, preference and open question, and name the artifacts (by identifier) that were created or changed and why. Leave out artifact contents; the latest versions are kept separately. Reply with the summary only.";
+
+const SUPERSEDED_CONTENT = "[Superseded by a later version of this artifact.]";
+
+// Stands in for a summary the model failed to write.
+const UNSUMMARIZED_TEXT =
+  "[Not available. The earlier turns were left out so the conversation fits the context window.]";
+
+// Earlier versions of an artifact are replaced by a short note, so only the
+// latest version of each identifier is sent in full.
+export const dedupeArtifacts = (messages: Message[]): Message[] => {
+  const latest = new Map<string, Artifact>();
+  for (const message of messages) {
+    for (const artifact of message.artifacts ?? []) {
+      latest.set(artifact.identifier, artifact);
+    }
+  }
+  return messages.map((message) =>
+    message.artifacts?.some((a) => latest.get(a.identifier) !== a)
+      ? {
+          ...message,
+          artifacts: message.artifacts.map((a) =>
+            latest.get(a.identifier) === a ? a : { ...a, content: SUPERSEDED_CONTENT },
+          ),
+        }
+      : message,
+  );
+};
+
+// The summary goes in as a user turn carrying the latest artifacts from the
+// summarized part, answered by the model so turns keep alternating.
+const summaryMessages = (summary: ContextSummary, summarized: Message[]): Message[] => {
+  const artifacts = summarized
+    .flatMap((message) => message.artifacts ?? [])
+    .filter((artifact) => artifact.content !== SUPERSEDED_CONTENT);
+  return [
+    {
+      role: "user",
+      parts: [
+        {
+          text: `Summary of the earlier conversation:\n${summary.text}${
+            artifacts.length > 0
+              ? "\n\nThe latest versions of the artifacts from that part of the conversation follow."
+              : ""
+          }`,
+        },
+      ],
+      ...(artifacts.length > 0 && { artifacts }),
+    },
+    { role: "model", parts: [{ text: "Understood. I'll continue from this summary." }] },
+  ];
+};
+
+const countTokens = (systemPrompt: string, history: Message[], prompt?: Message) =>
+  estimateTokens(systemPrompt) +
+  history.reduce((sum, message) => sum + messageTokens(message), 0) +
+  (prompt ? messageTokens(prompt) : 0);
+
+// The history as it would be sent: deduplicated, and starting with the
+// conversation's summary if it still covers a prefix of this branch.
+export const assembleContext = (
+  nodes: MessageNode[],
+  systemPrompt: string,
+  summary?: ContextSummary,
+): PreparedContext => {
+  const messages = dedupeArtifacts(nodes.map((node) => node.message));
+  const covered = summary
+    ? nodes.findIndex((node) => node.id === summary.throughNodeId)
+    : -1;
+  const history =
+    summary && covered >= 0
+      ? [
+          ...summaryMessages(summary, messages.slice(0, covered + 1)),
+          ...messages.slice(covered + 1),
+        ]
+      : messages;
+  return {
+    history,
+    tokens: countTokens(systemPrompt, history),
+    ...(covered >= 0 && { summary }),
+  };
+};
+
+// Fits the branch before `prompt` into the context window. Older turns are
+// summarized with `summarize` when it doesn't fit; the newest turns are kept
+// verbatim, filling up to half of the budget. If summarizing fails, the older
+// turns are left out except for their latest artifacts, and no summary is
+// returned, so the next reply tries again.
+export const prepareContext = async ({
+  nodes,
+  systemPrompt,
+  prompt,
+  budget,
+  summary,
+  summarize,
+}: {
+  nodes: MessageNode[];
+  systemPrompt: string;
+  prompt: Message;
+  budget: ContextBudget;
+  summary?: ContextSummary;
+  summarize: (messages: Message[]) => Promise<string>;
+}): Promise<PreparedContext> => {
+  const limit = budget.contextWindow - budget.reservedForOutput;
+  const fits = (history: Message[]) =>
+    countTokens(systemPrompt, history, prompt) <= limit;
+
+  const full = assembleContext(nodes, systemPrompt);
+  if (fits(full.history)) return full;
+  const cached = assembleContext(nodes, systemPrompt, summary);
+  if (cached.summary && fits(cached.history)) return cached;
+
+  // Keep the newest turns that fit in half the budget, starting on a user
+  // turn so the summary's model reply is followed by a user message.
+  const messages = dedupeArtifacts(nodes.map((node) => node.message));
+  let keepFrom = messages.length;
+  let kept = 0;
+  for (let i = messages.length - 1; i > 0; i--) {
+    kept += messageTokens(messages[i]);
+    if (kept > limit / 2) break;
+    if (messages[i].role === "user") keepFrom = i;
+  }
+  if (keepFrom <= 1) return full;
+
+  // Extend the existing summary rather than summarizing its turns again.
+  const covered = cached.summary
+    ? nodes.findIndex((node) => node.id === cached.summary!.throughNodeId)
+    : -1;
+  const toSummarize =
+    cached.summary && covered < keepFrom - 1
+      ? [
+          ...summaryMessages(cached.summary, messages.slice(0, covered + 1)),
+          ...messages.slice(covered + 1, keepFrom),
+        ]
+      : messages.slice(0, keepFrom);
+  const text = await summarize(toSummarize).catch(() => "");
+  const next: ContextSummary = {
+    throughNodeId: nodes[keepFrom - 1].id,
+    text: text || UNSUMMARIZED_TEXT,
+  };
+  const prepared = assembleContext(nodes, systemPrompt, next);
+  return text ? prepared : { history: prepared.history, tokens: prepared.tokens };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ConversationImportError,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  exportConversationsJson,
+  parseConversationsImport,
+} from "@/lib/conversation-transfer";
+import type { Conversation } from "@/lib/conversations";
+
+const conversation: Conversation = {
+  id: "c1",
+  title: "Charts",
+  tree: {
+    nodes: [
+      { id: "n1", parentId: null, message: { role: "user", parts: [{ text: "Hi" }] } },
+      {
+        id: "n2",
+        parentId: "n1",
+        message: { role: "model", parts: [{ text: "Hello" }], truncated: true },
+      },
+    ],
+    selected: {},
+  },
+  generationOverrides: {
+    temperature: 0.2,
+    stopSequences: ["END"],
+    safety: { harassment: "BLOCK_NONE" },
+    promptSections: [{ id: "s1", title: "Tone", content: "Be brief.", enabled: true }],
+  },
+  contextSummary: { throughNodeId: "n1", text: "The user said hi." },
+  createdAt: 1,
+  updatedAt: 2,
+};
+
+const fileWith = (changes: Record<string, unknown>, version = EXPORT_VERSION) =>
+  JSON.stringify({
+    format: EXPORT_FORMAT,
+    version,
+    exportedAt: "2026-01-01T00:00:00.000Z",
+    conversations: [{ ...conversation, ...changes }],
+  });
+
+const importError = (text: string) => {
+  try {
+    parseConversationsImport(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConversationImportError);
+    return (error as Error).message;
+  }
+  throw new Error("The import was accepted");
+};
+
+describe("parseConversationsImport", () => {
+  it("round-trips an export with overrides and a summary", () => {
+    expect(parseConversationsImport(exportConversationsJson([conversation]))).toEqual([
+      conversation,
+    ]);
+  });
+
+  it("accepts version 1 files, which have neither", () => {
+    const file = fileWith({ generationOverrides: undefined, contextSummary: undefined }, 1);
+    expect(parseConversationsImport(file)).toHaveLength(1);
+  });
+
+  it("rejects stop sequences that aren't an array", () => {
+    expect(
+      importError(fileWith({ generationOverrides: { stopSequences: "END" } })),
+    ).toContain("conversations[0].generationOverrides.stopSequences should be an array");
+  });
+
+  it("rejects non-numeric sampling values and unknown safety settings", () => {
+    expect(importError(fileWith({ generationOverrides: { topK: "40" } }))).toContain(
+      "generationOverrides.topK should be a number",
+    );
+    expect(
+      importError(fileWith({ generationOverrides: { safety: { harassment: "BLOCK_ALL" } } })),
+    ).toContain("generationOverrides.safety.harassment should be one of");
+    expect(
+      importError(fileWith({ generationOverrides: { safety: { spam: "BLOCK_NONE" } } })),
+    ).toContain("generationOverrides.safety should be keyed by");
+  });
+
+  it("rejects a malformed context summary", () => {
+    expect(importError(fileWith({ contextSummary: { text: "Summary" } }))).toContain(
+      "contextSummary.throughNodeId should be a string",
+    );
+  });
+});
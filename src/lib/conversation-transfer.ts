@@ -0,0 +1,270 @@
+import { stripArtifacts } from "@/lib/artifact-parser";
+import { conversationMessages, conversationTitle, type Conversation } from "@/lib/conversations";
+import { SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from "@/lib/generation-settings";
+import type { MessageNode } from "@/lib/message-tree";
+import type { Artifact } from "@/lib/types";
+
+export const EXPORT_FORMAT = "artifactual.conversations";
+// Bump when the exported shape changes, and teach the importer to upgrade
+// older versions. Version 2 added per-conversation generation overrides and
+// context summaries; version 1 files are still valid as they are.
+export const EXPORT_VERSION = 2;
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: Conversation[];
+}
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationImportError";
+  }
+}
+
+export const exportConversationsJson = (conversations: Conversation[]): string => {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+// A fence longer than any backtick run in the content, so it can't be closed
+// early.
+const fenceFor = (content: string) => {
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return "`".repeat(longest + 1);
+};
+
+const artifactToMarkdown = (artifact: Artifact) => {
+  const fence = fenceFor(artifact.content);
+  const meta = [artifact.identifier, artifact.type, artifact.editedByUser && "edited by user"]
+    .filter(Boolean)
+    .join(", ");
+  return `### Artifact: ${artifact.title} (${meta})\n\n${fence}${artifact.language ?? ""}\n${artifact.content}\n${fence}`;
+};
+
+// A readable transcript of the conversation's selected branch.
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const sections = conversationMessages(conversation).map((message) => {
+    const text = stripArtifacts(message.parts.map((part) => part.text).join("\n"))
+      .replace(/<antThinking>([\s\S]*?)<\/antThinking>/g, "*$1*")
+      .trim();
+    const heading = message.role === "user" ? "## User" : "## Model";
+    const attachments = (message.attachments ?? [])
+      .map((a) => `- Attached: ${a.name} (${a.mimeType})`)
+      .join("\n");
+    const artifacts = (message.artifacts ?? []).map(artifactToMarkdown);
+    return [heading, text, attachments, ...artifacts].filter(Boolean).join("\n\n");
+  });
+  return [
+    `# ${conversationTitle(conversation)}`,
+    `_Exported ${new Date().toISOString()}_`,
+    ...sections,
+  ].join("\n\n") + "\n";
+};
+
+type Check = (value: unknown, path: string) => void;
+
+const fail = (path: string, expected: string): never => {
+  throw new ConversationImportError(`Invalid file: ${path} should be ${expected}.`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const checkString: Check = (value, path) => {
+  if (typeof value !== "string") fail(path, "a string");
+};
+
+const checkBoolean: Check = (value, path) => {
+  if (typeof value !== "boolean") fail(path, "true or false");
+};
+
+const checkNumber: Check = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "a number");
+};
+
+const checkArtifact: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  for (const key of ["identifier", "type", "title", "content"]) {
+    checkString(value[key], `${path}.${key}`);
+  }
+  if (value.language !== undefined) checkString(value.language, `${path}.language`);
+};
+
+const checkAttachment: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  for (const key of ["id", "name", "mimeType", "data"]) {
+    checkString(value[key], `${path}.${key}`);
+  }
+  if (typeof value.size !== "number") fail(`${path}.size`, "a number");
+  if (value.kind !== "image" && value.kind !== "text") {
+    fail(`${path}.kind`, `"image" or "text"`);
+  }
+};
+
+const checkMessage: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  if (value.role !== "user" && value.role !== "model") {
+    fail(`${path}.role`, `"user" or "model"`);
+  }
+  if (!Array.isArray(value.parts)) return fail(`${path}.parts`, "an array");
+  value.parts.forEach((part, i) => {
+    if (!isObject(part)) return fail(`${path}.parts[${i}]`, "an object");
+    checkString(part.text, `${path}.parts[${i}].text`);
+  });
+  if (value.artifacts !== undefined) {
+    if (!Array.isArray(value.artifacts)) return fail(`${path}.artifacts`, "an array");
+    value.artifacts.forEach((a, i) => checkArtifact(a, `${path}.artifacts[${i}]`));
+  }
+  if (value.attachments !== undefined) {
+    if (!Array.isArray(value.attachments)) return fail(`${path}.attachments`, "an array");
+    value.attachments.forEach((a, i) => checkAttachment(a, `${path}.attachments[${i}]`));
+  }
+  if (value.artifactType !== undefined) checkString(value.artifactType, `${path}.artifactType`);
+  if (value.truncated !== undefined) checkBoolean(value.truncated, `${path}.truncated`);
+};
+
+const checkTree: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  if (!Array.isArray(value.nodes)) return fail(`${path}.nodes`, "an array");
+  const ids = new Set<string>();
+  value.nodes.forEach((node, i) => {
+    const nodePath = `${path}.nodes[${i}]`;
+    if (!isObject(node)) return fail(nodePath, "an object");
+    checkString(node.id, `${nodePath}.id`);
+    if (node.parentId !== null) checkString(node.parentId, `${nodePath}.parentId`);
+    checkMessage(node.message, `${nodePath}.message`);
+    ids.add(node.id as string);
+  });
+  for (const node of value.nodes as MessageNode[]) {
+    if (node.parentId !== null && !ids.has(node.parentId)) {
+      fail(`${path} node ${node.id}`, "attached to a message in the same conversation");
+    }
+  }
+  if (!isObject(value.selected)) fail(`${path}.selected`, "an object");
+};
+
+const SAFETY_CATEGORY_IDS: string[] = SAFETY_CATEGORIES.map((c) => c.id);
+const SAFETY_THRESHOLD_IDS: string[] = SAFETY_THRESHOLDS.map((t) => t.id);
+
+// Every field is optional; the ones present replace the global settings.
+const checkGenerationOverrides: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  for (const key of ["temperature", "topP", "topK", "maxOutputTokens", "contextWindow"]) {
+    if (value[key] !== undefined) checkNumber(value[key], `${path}.${key}`);
+  }
+  if (value.stopSequences !== undefined) {
+    if (!Array.isArray(value.stopSequences)) return fail(`${path}.stopSequences`, "an array");
+    value.stopSequences.forEach((s, i) => checkString(s, `${path}.stopSequences[${i}]`));
+  }
+  if (value.safety !== undefined) {
+    if (!isObject(value.safety)) return fail(`${path}.safety`, "an object");
+    for (const [category, threshold] of Object.entries(value.safety)) {
+      if (!SAFETY_CATEGORY_IDS.includes(category)) {
+        fail(`${path}.safety`, `keyed by one of ${SAFETY_CATEGORY_IDS.join(", ")}`);
+      }
+      if (!SAFETY_THRESHOLD_IDS.includes(threshold as string)) {
+        fail(`${path}.safety.${category}`, `one of ${SAFETY_THRESHOLD_IDS.join(", ")}`);
+      }
+    }
+  }
+  if (value.includeArtifactInstructions !== undefined) {
+    checkBoolean(value.includeArtifactInstructions, `${path}.includeArtifactInstructions`);
+  }
+  if (value.promptSections !== undefined) {
+    if (!Array.isArray(value.promptSections)) return fail(`${path}.promptSections`, "an array");
+    value.promptSections.forEach((section, i) => {
+      const sectionPath = `${path}.promptSections[${i}]`;
+      if (!isObject(section)) return fail(sectionPath, "an object");
+      for (const key of ["id", "title", "content"]) {
+        checkString(section[key], `${sectionPath}.${key}`);
+      }
+      checkBoolean(section.enabled, `${sectionPath}.enabled`);
+    });
+  }
+};
+
+const checkContextSummary: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  checkString(value.throughNodeId, `${path}.throughNodeId`);
+  checkString(value.text, `${path}.text`);
+};
+
+const checkConversation: Check = (value, path) => {
+  if (!isObject(value)) return fail(path, "an object");
+  checkString(value.id, `${path}.id`);
+  checkString(value.title, `${path}.title`);
+  checkTree(value.tree, `${path}.tree`);
+  if (value.generationOverrides !== undefined) {
+    checkGenerationOverrides(value.generationOverrides, `${path}.generationOverrides`);
+  }
+  if (value.contextSummary !== undefined) {
+    checkContextSummary(value.contextSummary, `${path}.contextSummary`);
+  }
+  for (const key of ["createdAt", "updatedAt"]) {
+    if (typeof value[key] !== "number") fail(`${path}.${key}`, "a number");
+  }
+};
+
+// Parses and validates an exported file. Throws ConversationImportError with
+// a message fit for the UI when the file can't be imported.
+export const parseConversationsImport = (text: string): Conversation[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError("The file is not valid JSON.");
+  }
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    throw new ConversationImportError("The file is not an Artifactual conversation export.");
+  }
+  if (typeof data.version !== "number" || data.version < 1) {
+    throw new ConversationImportError("The export has no valid format version.");
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new ConversationImportError(
+      `The export uses format version ${data.version}, but this app only understands up to version ${EXPORT_VERSION}. Update the app and try again.`,
+    );
+  }
+  if (!Array.isArray(data.conversations)) fail("conversations", "an array");
+  (data.conversations as unknown[]).forEach((c, i) =>
+    checkConversation(c, `conversations[${i}]`),
+  );
+  return data.conversations as Conversation[];
+};
+
+export interface MergeResult {
+  conversations: Conversation[];
+  added: number;
+  updated: number;
+}
+
+// Adds imported conversations to the local store. A conversation that is
+// already present replaces the local copy only if it was updated more
+// recently.
+export const mergeConversations = (
+  existing: Conversation[],
+  imported: Conversation[],
+): MergeResult => {
+  const byId = new Map(existing.map((c) => [c.id, c]));
+  let added = 0;
+  let updated = 0;
+  for (const conversation of imported) {
+    const local = byId.get(conversation.id);
+    if (!local) {
+      added++;
+      byId.set(conversation.id, conversation);
+    } else if (conversation.updatedAt > local.updatedAt) {
+      updated++;
+      byId.set(conversation.id, conversation);
+    }
+  }
+  return { conversations: [...byId.values()], added, updated };
+};
@@ -0,0 +1,63 @@
+import type { ContextSummary } from "@/lib/context-window";
+import type { GenerationOverrides } from "@/lib/generation-settings";
+import { activePath, treeFromMessages, type MessageTree } from "@/lib/message-tree";
+import type { Message } from "@/lib/types";
+
+export interface Conversation {
+  id: string;
+  // Empty until the first user message arrives or the user renames it.
+  title: string;
+  tree: MessageTree;
+  // Generation settings that differ from the global ones for this chat.
+  generationOverrides?: GenerationOverrides;
+  // Stands in for the oldest turns once the conversation outgrows the
+  // model's context window.
+  contextSummary?: ContextSummary;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const TITLE_MAX_LENGTH = 48;
+
+export const UNTITLED_CONVERSATION = "New chat";
+
+export const createConversation = (messages: Message[] = []): Conversation => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: titleFromMessages(messages),
+    tree: treeFromMessages(messages),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const titleFromMessages = (messages: Message[]): string => {
+  const firstUserMessage = messages.find((m) => m.role === "user");
+  if (!firstUserMessage) return "";
+  const text = firstUserMessage.parts
+    .map((part) => part.text)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= TITLE_MAX_LENGTH) return text;
+  const cut = text.slice(0, TITLE_MAX_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > TITLE_MAX_LENGTH / 2 ? cut.slice(0, lastSpace) : cut) + "…";
+};
+
+export const conversationTitle = (conversation: Conversation): string =>
+  conversation.title || UNTITLED_CONVERSATION;
+
+export const matchesSearch = (conversation: Conversation, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  if (conversationTitle(conversation).toLowerCase().includes(needle)) return true;
+  return conversation.tree.nodes.some(({ message }) =>
+    message.parts.some((part) => part.text.toLowerCase().includes(needle)),
+  );
+};
+
+// The messages on the conversation's selected branch.
+export const conversationMessages = (conversation: Conversation): Message[] =>
+  activePath(conversation.tree).map((node) => node.message);
@@ -0,0 +1,79 @@
+import { diffLines } from "diff";
+
+export type DiffLineKind = "added" | "removed" | "unchanged";
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface SplitDiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const splitLines = (value: string) => {
+  const lines = value.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+};
+
+export const diffInline = (oldText: string, newText: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+
+  for (const change of diffLines(oldText, newText)) {
+    for (const text of splitLines(change.value)) {
+      if (change.added) {
+        lines.push({ kind: "added", text, newNumber: newNumber++ });
+      } else if (change.removed) {
+        lines.push({ kind: "removed", text, oldNumber: oldNumber++ });
+      } else {
+        lines.push({
+          kind: "unchanged",
+          text,
+          oldNumber: oldNumber++,
+          newNumber: newNumber++,
+        });
+      }
+    }
+  }
+  return lines;
+};
+
+// Pairs each run of removed lines with the run of added lines that follows
+// it, so replacements line up across the two columns.
+export const diffSideBySide = (
+  oldText: string,
+  newText: string,
+): SplitDiffRow[] => {
+  const rows: SplitDiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    const length = Math.max(removed.length, added.length);
+    for (let i = 0; i < length; i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of diffInline(oldText, newText)) {
+    if (line.kind === "removed") {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.kind === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+};
@@ -0,0 +1,45 @@
+// Some browsers cancel a download whose URL is revoked before they start it.
+const REVOKE_DELAY_MS = 60_000;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Rasterises an SVG string at its intrinsic (viewBox) size times `scale`.
+export const svgToPngBlob = (svg: string, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+    const root = doc.documentElement;
+    const viewBox = root.getAttribute("viewBox")?.split(/[\s,]+/).map(Number);
+    const width = viewBox?.[2] || parseFloat(root.getAttribute("width") || "") || 800;
+    const height = viewBox?.[3] || parseFloat(root.getAttribute("height") || "") || 600;
+    root.setAttribute("width", String(width));
+    root.setAttribute("height", String(height));
+
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas 2D context is not available"));
+        return;
+      }
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode PNG")),
+      );
+    };
+    image.onerror = () => reject(new Error("Failed to load SVG for rasterising"));
+    image.src =
+      "data:image/svg+xml;charset=utf-8," +
+      encodeURIComponent(new XMLSerializer().serializeToString(root));
+  });
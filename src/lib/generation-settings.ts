@@ -0,0 +1,98 @@
+import { artifactInstructions } from "@/lib/instructions";
+
+export type SafetyCategory =
+  | "harassment"
+  | "hateSpeech"
+  | "sexuallyExplicit"
+  | "dangerousContent";
+
+export type SafetyThreshold =
+  | "BLOCK_NONE"
+  | "BLOCK_ONLY_HIGH"
+  | "BLOCK_MEDIUM_AND_ABOVE"
+  | "BLOCK_LOW_AND_ABOVE";
+
+export const SAFETY_CATEGORIES: Array<{ id: SafetyCategory; label: string }> = [
+  { id: "harassment", label: "Harassment" },
+  { id: "hateSpeech", label: "Hate speech" },
+  { id: "sexuallyExplicit", label: "Sexually explicit" },
+  { id: "dangerousContent", label: "Dangerous content" },
+];
+
+export const SAFETY_THRESHOLDS: Array<{ id: SafetyThreshold; label: string }> = [
+  { id: "BLOCK_NONE", label: "Block none" },
+  { id: "BLOCK_ONLY_HIGH", label: "Block few" },
+  { id: "BLOCK_MEDIUM_AND_ABOVE", label: "Block some" },
+  { id: "BLOCK_LOW_AND_ABOVE", label: "Block most" },
+];
+
+// A user-written addition to the system prompt.
+export interface PromptSection {
+  id: string;
+  title: string;
+  content: string;
+  enabled: boolean;
+}
+
+// Sampling options left undefined use the provider's defaults.
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  // Overrides the context window looked up for the model, e.g. for local
+  // models run with a custom context size.
+  contextWindow?: number;
+  stopSequences: string[];
+  // Categories without a threshold use the provider's default.
+  safety: Partial<Record<SafetyCategory, SafetyThreshold>>;
+  includeArtifactInstructions: boolean;
+  promptSections: PromptSection[];
+}
+
+// The part of the settings sent with each request rather than in the
+// system prompt.
+export type SamplingSettings = Omit<
+  GenerationSettings,
+  "contextWindow" | "includeArtifactInstructions" | "promptSections"
+>;
+
+// Per-conversation values that replace the global ones field by field.
+export type GenerationOverrides = Partial<GenerationSettings>;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  stopSequences: [],
+  safety: {},
+  includeArtifactInstructions: true,
+  promptSections: [],
+};
+
+export const resolveGenerationSettings = (
+  global: GenerationSettings,
+  overrides: GenerationOverrides = {},
+): GenerationSettings => ({ ...global, ...overrides });
+
+export const samplingSettings = (settings: GenerationSettings): SamplingSettings => ({
+  temperature: settings.temperature,
+  topP: settings.topP,
+  topK: settings.topK,
+  maxOutputTokens: settings.maxOutputTokens,
+  // The editor keeps blank lines while typing.
+  stopSequences: settings.stopSequences.filter((s) => s.trim() !== ""),
+  safety: settings.safety,
+});
+
+// The built-in artifact instructions followed by the enabled user sections.
+export const composeSystemPrompt = (settings: GenerationSettings): string =>
+  [
+    settings.includeArtifactInstructions ? artifactInstructions() : "",
+    ...settings.promptSections
+      .filter((section) => section.enabled && section.content.trim())
+      .map((section) =>
+        section.title.trim()
+          ? `# ${section.title.trim()}\n${section.content.trim()}`
+          : section.content.trim(),
+      ),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
@@ -0,0 +1,12 @@
+import hljs from "highlight.js/lib/common";
+
+import { getArtifactType } from "@/lib/artifact-types";
+import type { Artifact } from "@/lib/types";
+
+export const highlightLanguage = (
+  artifact: Pick<Artifact, "type" | "language">,
+): string | undefined => {
+  const language =
+    artifact.language?.toLowerCase() || getArtifactType(artifact.type)?.highlightLanguage;
+  return language && hljs.getLanguage(language) ? language : undefined;
+};
@@ -1,4 +1,17 @@
-const instructions = `<artifacts_info>
+import { listArtifactTypes, type ArtifactTypeDefinition } from "@/lib/artifact-types";
+
+const typeDoc = (definition: ArtifactTypeDefinition) =>
+  [
+    `    - ${definition.label}: "${definition.mimeType}"`,
+    ...definition.promptNotes.map((note) => `      - ${note}`),
+  ].join("\n");
+
+// The artifact instructions, listing every registered artifact type.
+export const artifactInstructions = (
+  types: ArtifactTypeDefinition[] = listArtifactTypes(),
+): string => {
+  const typeDocs = types.map(typeDoc).join("\n");
+  return `<artifacts_info>
 The assistant can create and reference artifacts during conversations. Artifacts are for substantial, self-contained content that users might modify or reuse, displayed in a separate UI window for clarity.
 
 # Good artifacts are...
@@ -32,35 +45,8 @@ The assistant can create and reference artifacts during conversations. Artifacts
   4. Assign an identifier to the identifier attribute of the opening <antArtifact> tag. For updates, reuse the prior identifier. For new artifacts, the identifier should be descriptive and relevant to the content, using kebab-case (e.g., "example-code-snippet"). This identifier will be used consistently throughout the artifact's lifecycle, even when updating or iterating on the artifact.
   5. Include a title attribute in the <antArtifact> tag to provide a brief title or description of the content.
   6. Add a type attribute to the opening <antArtifact> tag to specify the type of content the artifact represents. Assign one of the following values to the type attribute:
-    - Code: "application/vnd.ant.code"
-      - Use for code snippets or scripts in any programming language.
-      - Include the language name as the value of the language attribute (e.g., language="python").
-      - Do not use triple backticks when putting code in an artifact.
-    - Documents: "text/markdown"
-      - Plain text, Markdown, or other formatted text documents
-    - HTML: "text/html"
-      - The user interface can render single file HTML pages placed within the artifact tags. HTML, JS, and CSS should be in a single file when using the text/html type.
-      - Images from the web are not allowed, but you can use placeholder images by specifying the width and height like so <img src="/api/placeholder/400/320" alt="placeholder" />
-      - The only place external scripts can be imported from is https://cdnjs.cloudflare.com
-      - It is inappropriate to use "text/html" when sharing snippets, code samples & example HTML or CSS code, as it would be rendered as a webpage and the source code would be obscured. The assistant should instead use "application/vnd.ant.code" defined above.
-    - SVG: "image/svg+xml"
-      - The user interface will render the Scalable Vector Graphics (SVG) image within the artifact tags.
-      - The assistant should specify the viewbox of the SVG rather than defining a width/height
-    - Mermaid Diagrams: "application/vnd.ant.mermaid"
-      - The user interface will render Mermaid diagrams placed within the artifact tags.
-      - Do not put Mermaid code in a code block when using artifacts.
-    - React Components: "application/vnd.ant.react"
-      - Use this for displaying either: React elements, e.g. <strong>Hello World!</strong>, React pure functional components, e.g. () => <strong>Hello World!</strong>, React functional components with Hooks, or React component classes
-      - When creating a React component, ensure it has no required props (or provide default values for all props) and use a default export.
-      - Use Tailwind classes for styling. DO NOT USE ARBITRARY VALUES (e.g. h-[600px]).
-      - Base React is available to be imported. To use hooks, first import it at the top of the artifact, e.g. import { useState } from "react"
-      - The lucide-react@0.263.1 library is available to be imported, e.g. import { Camera } from "lucide-react" & <Camera color="red" size={48} />
-      - The recharts charting library is available to be imported, e.g. import { LineChart, XAxis, ... } from 'recharts' & <LineChart ...><XAxis dataKey="name"> ...
-      - The assistant can use prebuilt components from the shadcn/ui library after it is imported: import { Alert, AlertDescription, AlertTitle, AlertDialog, AlertDialogAction } from '@/components/ui/alert';. If using components from the shadcn/ui library, the assistant mentions this to the user and offers to help them install the components if necessary.
-      - NO OTHER LIBRARIES (e.g. zod, hookform) ARE INSTALLED OR ABLE TO BE IMPORTED.
-      - Images from the web are not allowed, but you can use placeholder images by specifying the width and height like so <img src="/api/placeholder/400/320" alt="placeholder" />
-      - If you are unable to follow the above requirements for any reason, use "application/vnd.ant.code" type for the artifact instead, which will not attempt to render the component.
-  7. Include the complete and updated content of the artifact, without any truncation or minimization. Don't use "// rest of the code remains the same...".
+${typeDocs}
+  7. Include the complete and updated content of the artifact (for a multi-file React project, of every file that changes), without any truncation or minimization. Don't use "// rest of the code remains the same...".
   8. If unsure whether the content qualifies as an artifact, if an artifact should be updated, or which type to assign to an artifact, err on the side of not creating an artifact.
 </artifact_instructions>
 
@@ -122,6 +108,5 @@ This example shows how to update an existing artifact and reference it in the re
 
   </example>
 </examples>
-</artifacts_info>`
-export default instructions;
-
+</artifacts_info>`;
+};
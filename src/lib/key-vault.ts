@@ -0,0 +1,153 @@
+import type { ProviderId } from "@/lib/providers";
+
+// API keys saved in the browser are encrypted with AES-GCM under a key
+// derived from the user's passphrase. Only names and providers are stored
+// in the clear; the passphrase and the decrypted keys live in memory for the
+// length of the session.
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256.
+const PBKDF2_ITERATIONS = 600_000;
+// Encrypted when the vault is created, so a passphrase can be checked even
+// while the vault holds no keys.
+const CHECK_VALUE = "artifactual-key-vault";
+
+export interface EncryptedSecret {
+  // Base64.
+  iv: string;
+  data: string;
+}
+
+export interface VaultApiKey {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  secret: EncryptedSecret;
+}
+
+export interface KeyVault {
+  salt: string;
+  iterations: number;
+  check: EncryptedSecret;
+  keys: VaultApiKey[];
+}
+
+// A key saved before encryption existed. The app removes it from storage on
+// load and holds it in memory until a vault is created or unlocked, which
+// encrypts it, or the user forgets it.
+export interface UnencryptedApiKey {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  secret: string;
+}
+
+export type ApiKeyPersistence = "vault" | "session" | "unencrypted";
+
+export interface ApiKeyEntry {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  persistence: ApiKeyPersistence;
+}
+
+export type KeyVaultErrorKind = "wrongPassphrase" | "unsupported";
+
+export class KeyVaultError extends Error {
+  constructor(
+    readonly kind: KeyVaultErrorKind,
+    message: string,
+  ) {
+    super(message);
+    this.name = "KeyVaultError";
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const subtle = () => {
+  // Web Crypto only exists in secure contexts (https or localhost).
+  if (!globalThis.crypto?.subtle) {
+    throw new KeyVaultError(
+      "unsupported",
+      "Encrypted key storage needs a secure (https) page. Use a session-only key instead.",
+    );
+  }
+  return globalThis.crypto.subtle;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await subtle().importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return subtle().deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+export const encryptSecret = async (
+  key: CryptoKey,
+  secret: string,
+): Promise<EncryptedSecret> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await subtle().encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(secret),
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const decryptSecret = async (key: CryptoKey, { iv, data }: EncryptedSecret) => {
+  const plain = await subtle().decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(data),
+  );
+  return new TextDecoder().decode(plain);
+};
+
+export const createVault = async (
+  passphrase: string,
+): Promise<{ vault: KeyVault; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    vault: {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptSecret(key, CHECK_VALUE),
+      keys: [],
+    },
+    key,
+  };
+};
+
+// Returns the derived key and every decrypted secret by key id. AES-GCM
+// rejects a wrong key, which is how a wrong passphrase shows up.
+export const unlockVault = async (
+  vault: KeyVault,
+  passphrase: string,
+): Promise<{ key: CryptoKey; secrets: Record<string, string> }> => {
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    await decryptSecret(key, vault.check);
+  } catch {
+    throw new KeyVaultError("wrongPassphrase", "That passphrase doesn't unlock the saved keys.");
+  }
+  const secrets: Record<string, string> = {};
+  for (const apiKey of vault.keys) {
+    secrets[apiKey.id] = await decryptSecret(key, apiKey.secret);
+  }
+  return { key, secrets };
+};
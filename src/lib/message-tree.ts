@@ -0,0 +1,89 @@
+import type { Message } from "@/lib/types";
+
+// Conversations are trees: editing a user message or regenerating a reply
+// adds a sibling next to the original instead of overwriting it. The chat on
+// screen, and the history sent to the model, is the path picked out by
+// `selected`.
+
+export interface MessageNode {
+  id: string;
+  parentId: string | null;
+  message: Message;
+}
+
+export interface MessageTree {
+  nodes: MessageNode[];
+  // Selected child id per parent id (ROOT for top-level messages). Parents
+  // without an entry show their newest child; an empty string shows none.
+  selected: Record<string, string>;
+}
+
+export const ROOT = "root";
+
+const selectionKey = (parentId: string | null) => parentId ?? ROOT;
+
+export const emptyTree = (): MessageTree => ({ nodes: [], selected: {} });
+
+export const childrenOf = (
+  tree: MessageTree,
+  parentId: string | null,
+): MessageNode[] => tree.nodes.filter((node) => node.parentId === parentId);
+
+export const activePath = (tree: MessageTree): MessageNode[] => {
+  const path: MessageNode[] = [];
+  let parentId: string | null = null;
+  for (;;) {
+    const children = childrenOf(tree, parentId);
+    const selectedId: string | undefined = tree.selected[selectionKey(parentId)];
+    const next: MessageNode | undefined =
+      selectedId === undefined
+        ? children[children.length - 1]
+        : children.find((child) => child.id === selectedId);
+    if (!next) return path;
+    path.push(next);
+    parentId = next.id;
+  }
+};
+
+export const treeFromMessages = (messages: Message[]): MessageTree => {
+  const tree = emptyTree();
+  let parentId: string | null = null;
+  for (const message of messages) {
+    const node: MessageNode = { id: crypto.randomUUID(), parentId, message };
+    tree.nodes.push(node);
+    parentId = node.id;
+  }
+  return tree;
+};
+
+// Adds `node` and makes it the selected child of its parent.
+export const addNode = (tree: MessageTree, node: MessageNode): MessageTree => ({
+  nodes: [...tree.nodes, node],
+  selected: { ...tree.selected, [selectionKey(node.parentId)]: node.id },
+});
+
+// Hides the children of `parentId`, so the path ends there until a new child
+// is added.
+export const clearSelection = (
+  tree: MessageTree,
+  parentId: string | null,
+): MessageTree => ({
+  ...tree,
+  selected: { ...tree.selected, [selectionKey(parentId)]: "" },
+});
+
+export const selectNode = (tree: MessageTree, node: MessageNode): MessageTree => ({
+  ...tree,
+  selected: { ...tree.selected, [selectionKey(node.parentId)]: node.id },
+});
+
+export const replaceMessage = (
+  tree: MessageTree,
+  nodeId: string,
+  message: Message,
+): MessageTree => ({
+  ...tree,
+  nodes: tree.nodes.map((node) =>
+    node.id === nodeId ? { ...node, message } : node,
+  ),
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+
+import {
+  ModelError,
+  ProviderHttpError,
+  classifyError,
+  withRetry,
+} from "@/lib/model-errors";
+
+const withStatus = (status: number, message = "Request failed") =>
+  Object.assign(new Error(message), { status });
+
+describe("classifyError", () => {
+  it.each([
+    [new ProviderHttpError(401, "Unauthorized"), "invalidApiKey", false],
+    [new Error("API key not valid. Please pass a valid API key."), "invalidApiKey", false],
+    [withStatus(403), "invalidApiKey", false],
+    [withStatus(429), "rateLimit", true],
+    [new Error("Resource has been exhausted (e.g. check quota)."), "rateLimit", true],
+    [new Error("Response was blocked due to SAFETY"), "safety", false],
+    [withStatus(503), "network", true],
+    [withStatus(408), "network", true],
+    [new TypeError("Failed to fetch"), "network", true],
+    [new SyntaxError("Unexpected end of JSON input"), "malformedResponse", true],
+    [withStatus(400, "Invalid argument"), "unknown", false],
+    ["something odd", "unknown", false],
+  ])("classifies %s as %s", (error, kind, transient) => {
+    expect(classifyError(error)).toMatchObject({ kind, transient });
+  });
+
+  it("keeps the server's Retry-After delay", () => {
+    expect(classifyError(new ProviderHttpError(429, "Slow down", 5000)).retryAfterMs).toBe(5000);
+  });
+
+  it("passes ModelErrors through unchanged", () => {
+    const error = new ModelError("safety", "Blocked");
+    expect(classifyError(error)).toBe(error);
+  });
+});
+
+describe("withRetry", () => {
+  const options = { baseDelayMs: 1 };
+
+  it("retries transient failures until the request succeeds", async () => {
+    const request = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(withStatus(503))
+      .mockRejectedValueOnce(withStatus(429))
+      .mockResolvedValue("ok");
+    const onRetry = vi.fn();
+    expect(await withRetry(request, { ...options, onRetry })).toBe("ok");
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([error, attempt]) => [error.kind, attempt])).toEqual([
+      ["network", 2],
+      ["rateLimit", 3],
+    ]);
+  });
+
+  it("doesn't retry errors that would fail again", async () => {
+    const request = vi.fn().mockRejectedValue(withStatus(401));
+    await expect(withRetry(request, options)).rejects.toMatchObject({ kind: "invalidApiKey" });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up with the classified error after the last retry", async () => {
+    const request = vi.fn().mockRejectedValue(withStatus(500, "Internal error"));
+    const error = await withRetry(request, { ...options, retries: 2 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ModelError);
+    expect(error).toMatchObject({ kind: "network", message: "Internal error" });
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops waiting as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(withStatus(503));
+    const retrying = withRetry(request, { baseDelayMs: 60_000, signal: controller.signal });
+    setTimeout(() => controller.abort(new DOMException("Stopped", "AbortError")), 10);
+    await expect(retrying).rejects.toMatchObject({ name: "AbortError" });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't start a wait once the signal has aborted", async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(withStatus(503));
+    const retrying = withRetry(request, {
+      baseDelayMs: 60_000,
+      signal: controller.signal,
+      onRetry: () => controller.abort(new DOMException("Stopped", "AbortError")),
+    });
+    await expect(retrying).rejects.toMatchObject({ name: "AbortError" });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("removes its abort listener once a wait ends", async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+    const request = vi.fn().mockRejectedValueOnce(withStatus(503)).mockResolvedValue("ok");
+    await withRetry(request, { ...options, signal: controller.signal });
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith("abort", add.mock.calls[0][1]);
+  });
+});
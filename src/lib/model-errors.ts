@@ -0,0 +1,145 @@
+export type ModelErrorKind =
+  | "invalidApiKey"
+  | "rateLimit"
+  | "safety"
+  | "network"
+  | "malformedResponse"
+  | "unknown";
+
+const TITLES: Record<ModelErrorKind, string> = {
+  invalidApiKey: "Invalid API key",
+  rateLimit: "Rate limit or quota exceeded",
+  safety: "Blocked by safety filters",
+  network: "Couldn't reach the model",
+  malformedResponse: "Unexpected response from the model",
+  unknown: "The request failed",
+};
+
+const HINTS: Record<ModelErrorKind, string> = {
+  invalidApiKey: "Check the API key for this provider and try again.",
+  rateLimit: "Wait a moment before retrying, or check your plan's quota.",
+  safety: "Rephrase the request or relax the safety settings.",
+  network: "Check your connection and the provider's base URL.",
+  malformedResponse: "Retrying usually helps.",
+  unknown: "",
+};
+
+export class ModelError extends Error {
+  constructor(
+    readonly kind: ModelErrorKind,
+    message: string,
+    // Worth retrying automatically: the same request may succeed later.
+    readonly transient = false,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ModelError";
+  }
+
+  get title() {
+    return TITLES[this.kind];
+  }
+
+  get hint() {
+    return HINTS[this.kind];
+  }
+}
+
+// Thrown by providers that call HTTP APIs directly, so the status survives
+// to classification.
+export class ProviderHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+export const retryAfterMs = (response: Response): number | undefined => {
+  const header = response.headers.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const NETWORK_MESSAGE = /failed to fetch|networkerror|load failed|network request failed|err_connection/i;
+const SAFETY_MESSAGE = /blocked due to (SAFETY|RECITATION|BLOCKLIST|PROHIBITED_CONTENT|SPII)|content_filter/i;
+const API_KEY_MESSAGE = /api key not valid|api_key_invalid|invalid api key|incorrect api key/i;
+
+// Maps errors from either provider (Gemini SDK errors carry `status`; the
+// OpenAI-compatible provider throws ProviderHttpError) onto a ModelError.
+export const classifyError = (error: unknown): ModelError => {
+  if (error instanceof ModelError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status =
+    typeof error === "object" && error !== null && "status" in error
+      ? Number((error as { status: unknown }).status)
+      : undefined;
+  const retryAfter = error instanceof ProviderHttpError ? error.retryAfterMs : undefined;
+
+  if (status === 401 || API_KEY_MESSAGE.test(message)) {
+    return new ModelError("invalidApiKey", message);
+  }
+  if (status === 429 || /quota|rate limit|resource_exhausted/i.test(message)) {
+    return new ModelError("rateLimit", message, true, retryAfter);
+  }
+  if (status === 403) return new ModelError("invalidApiKey", message);
+  if (SAFETY_MESSAGE.test(message)) return new ModelError("safety", message);
+  if (status === 408 || (status !== undefined && status >= 500)) {
+    return new ModelError("network", message, true, retryAfter);
+  }
+  if (NETWORK_MESSAGE.test(message)) return new ModelError("network", message, true);
+  if (error instanceof SyntaxError || /unexpected (end|token)|malformed/i.test(message)) {
+    return new ModelError("malformedResponse", message, true);
+  }
+  return new ModelError("unknown", message);
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  // Called before each wait, with the 1-based number of the next attempt.
+  onRetry?: (error: ModelError, attempt: number, delayMs: number) => void;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+// Runs `request`, retrying transient failures with exponential backoff and
+// jitter. Rejects with the classified error once retries run out.
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, signal, onRetry }: RetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const classified = classifyError(error);
+      if (!classified.transient || attempt > retries) throw classified;
+      const delay =
+        classified.retryAfterMs ??
+        baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      onRetry?.(classified, attempt + 1, delay);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,24 @@
+// Local stand-in for the `/api/placeholder/W/H` image URLs the artifact
+// instructions let the model use. Previews have no backend to serve them, so
+// they are swapped for generated SVG data URIs before rendering.
+
+const PLACEHOLDER_URL = /\/api\/placeholder\/(\d+)\/(\d+)/g;
+const MAX_DIMENSION = 4096;
+
+export const placeholderDataUri = (width: number, height: number): string => {
+  const w = Math.min(Math.max(width, 1), MAX_DIMENSION);
+  const h = Math.min(Math.max(height, 1), MAX_DIMENSION);
+  const fontSize = Math.max(10, Math.round(Math.min(w, h) / 8));
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">` +
+    `<rect width="100%" height="100%" fill="#e4e4e7"/>` +
+    `<text x="50%" y="50%" fill="#71717a" font-family="sans-serif" font-size="${fontSize}" ` +
+    `text-anchor="middle" dominant-baseline="middle">${w} × ${h}</text>` +
+    `</svg>`;
+  return "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svg);
+};
+
+export const replacePlaceholderUrls = (content: string): string =>
+  content.replace(PLACEHOLDER_URL, (_, width, height) =>
+    placeholderDataUri(Number(width), Number(height)),
+  );
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  TEMPLATES_FORMAT,
+  TemplateError,
+  expandTemplate,
+  exportTemplatesJson,
+  parseArguments,
+  parseTemplatesImport,
+  type PromptTemplate,
+} from "@/lib/prompt-templates";
+
+const chart: PromptTemplate = {
+  id: "t1",
+  name: "chart",
+  description: "A chart",
+  body: "Draw a {{kind=bar}} chart of {{data}}.",
+};
+
+const templateError = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TemplateError);
+    return (error as Error).message;
+  }
+  throw new Error("No error was thrown");
+};
+
+describe("parseArguments", () => {
+  it("splits key=value pairs from the free text after them", () => {
+    expect(parseArguments("  data=sales kind=line  and label the axes ")).toEqual({
+      args: { data: "sales", kind: "line" },
+      rest: "and label the axes",
+    });
+  });
+
+  it("reads quoted values with spaces and escaped quotes", () => {
+    expect(parseArguments('data="Q1 \\"actual\\" sales" go')).toEqual({
+      args: { data: 'Q1 "actual" sales' },
+      rest: "go",
+    });
+  });
+
+  it("stops at the first word that isn't an argument", () => {
+    expect(parseArguments("make it data=sales")).toEqual({
+      args: {},
+      rest: "make it data=sales",
+    });
+  });
+});
+
+describe("expandTemplate", () => {
+  it("fills in variables and falls back to defaults", () => {
+    expect(expandTemplate(chart, "data=revenue")).toBe("Draw a bar chart of revenue.");
+    expect(expandTemplate(chart, 'data=revenue kind="stacked area"')).toBe(
+      "Draw a stacked area chart of revenue.",
+    );
+  });
+
+  it("appends free text as its own paragraph", () => {
+    expect(expandTemplate(chart, "data=revenue Use our brand colours.")).toBe(
+      "Draw a bar chart of revenue.\n\nUse our brand colours.",
+    );
+  });
+
+  it("names missing required arguments", () => {
+    expect(templateError(() => expandTemplate(chart, ""))).toBe("/chart needs data=…");
+  });
+
+  it("rejects arguments the template doesn't take", () => {
+    expect(templateError(() => expandTemplate(chart, "data=revenue colour=red"))).toBe(
+      "/chart has no colour= (it takes kind, data)",
+    );
+  });
+});
+
+describe("parseTemplatesImport", () => {
+  const file = (changes: Record<string, unknown>) =>
+    JSON.stringify({ format: TEMPLATES_FORMAT, version: 1, templates: [chart], ...changes });
+
+  it("round-trips an export with fresh ids", () => {
+    const [imported] = parseTemplatesImport(exportTemplatesJson([chart]));
+    expect(imported).toMatchObject({ name: "chart", description: "A chart", body: chart.body });
+    expect(imported.id).not.toBe(chart.id);
+  });
+
+  it("rejects files that aren't template exports", () => {
+    expect(templateError(() => parseTemplatesImport("{"))).toBe("The file is not valid JSON.");
+    expect(templateError(() => parseTemplatesImport(file({ format: "other" })))).toBe(
+      "The file is not a prompt template export.",
+    );
+    expect(templateError(() => parseTemplatesImport(file({ templates: {} })))).toBe(
+      "The file has no templates.",
+    );
+  });
+
+  it("rejects exports from a newer version", () => {
+    expect(templateError(() => parseTemplatesImport(file({ version: 2 })))).toContain(
+      "format version 2",
+    );
+  });
+
+  it("rejects templates with an invalid name or no body", () => {
+    expect(
+      templateError(() =>
+        parseTemplatesImport(file({ templates: [chart, { name: "Bad Name", body: "x" }] })),
+      ),
+    ).toBe("Template 2 needs a valid name and a body.");
+    expect(
+      templateError(() => parseTemplatesImport(file({ templates: [{ name: "empty" }] }))),
+    ).toBe("Template 1 needs a valid name and a body.");
+  });
+});
@@ -0,0 +1,140 @@
+// Saved prompts the composer expands from `/name key=value ...`. A template
+// body refers to variables as {{key}}, or {{key=default}} for optional ones.
+export interface PromptTemplate {
+  id: string;
+  // Typed after the slash; lowercase letters, digits and dashes.
+  name: string;
+  description: string;
+  body: string;
+}
+
+export const TEMPLATES_FORMAT = "artifactual.prompt-templates";
+export const TEMPLATES_VERSION = 1;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "default-component",
+    name: "component",
+    description: "A React component as an artifact",
+    body: "Create a React component called {{name}} as an artifact.",
+  },
+  {
+    id: "default-mockup",
+    name: "mockup",
+    description: "Recreate an attached mockup",
+    body: "Recreate the attached mockup as a {{as=React}} artifact. Match the layout, spacing and colours as closely as you can.",
+  },
+];
+
+const VARIABLE = /\{\{\s*([\w-]+)\s*(?:=([^}]*))?\}\}/g;
+
+export const isValidTemplateName = (name: string) => /^[a-z0-9][a-z0-9-]*$/.test(name);
+
+export interface TemplateVariable {
+  name: string;
+  default?: string;
+}
+
+export const templateVariables = (body: string): TemplateVariable[] => {
+  const variables = new Map<string, TemplateVariable>();
+  for (const [, name, fallback] of body.matchAll(VARIABLE)) {
+    if (!variables.has(name)) variables.set(name, { name, default: fallback });
+  }
+  return [...variables.values()];
+};
+
+// Splits `key=value` pairs (values may be "quoted") from the free text that
+// follows them.
+export const parseArguments = (text: string) => {
+  const args: Record<string, string> = {};
+  let rest = text.trim();
+  for (;;) {
+    const match = rest.match(/^([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|(\S*))\s*/);
+    if (!match) break;
+    args[match[1]] = match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3];
+    rest = rest.slice(match[0].length);
+  }
+  return { args, rest };
+};
+
+// Fills in the template's variables; free text after the arguments is
+// appended as its own paragraph.
+export const expandTemplate = (template: PromptTemplate, argumentText: string): string => {
+  const { args, rest } = parseArguments(argumentText);
+  const variables = templateVariables(template.body);
+  const unknown = Object.keys(args).filter((key) => !variables.some((v) => v.name === key));
+  if (unknown.length > 0) {
+    const known = variables.map((v) => v.name).join(", ") || "no variables";
+    throw new TemplateError(
+      `/${template.name} has no ${unknown.map((key) => `${key}=`).join(" ")} (it takes ${known})`,
+    );
+  }
+  const missing = variables.filter((v) => v.default === undefined && !args[v.name]);
+  if (missing.length > 0) {
+    throw new TemplateError(
+      `/${template.name} needs ${missing.map((v) => `${v.name}=…`).join(" ")}`,
+    );
+  }
+  const body = template.body
+    .replace(VARIABLE, (_, name: string, fallback?: string) => args[name] || fallback || "")
+    .trim();
+  return rest ? `${body}\n\n${rest}` : body;
+};
+
+export const exportTemplatesJson = (templates: PromptTemplate[]): string =>
+  JSON.stringify(
+    { format: TEMPLATES_FORMAT, version: TEMPLATES_VERSION, templates },
+    null,
+    2,
+  );
+
+// Throws TemplateError with a message fit for the UI.
+export const parseTemplatesImport = (text: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TemplateError("The file is not valid JSON.");
+  }
+  if (typeof data !== "object" || data === null || !("format" in data)) {
+    throw new TemplateError("The file is not a prompt template export.");
+  }
+  const { format, version, templates } = data as Record<string, unknown>;
+  if (format !== TEMPLATES_FORMAT) {
+    throw new TemplateError("The file is not a prompt template export.");
+  }
+  if (typeof version !== "number" || version > TEMPLATES_VERSION) {
+    throw new TemplateError(
+      `The export uses format version ${version}, but this app only understands up to version ${TEMPLATES_VERSION}.`,
+    );
+  }
+  if (!Array.isArray(templates)) throw new TemplateError("The file has no templates.");
+  return templates.map((t, i) => {
+    const { name, description, body } = (t ?? {}) as Record<string, unknown>;
+    if (typeof name !== "string" || !isValidTemplateName(name) || typeof body !== "string") {
+      throw new TemplateError(`Template ${i + 1} needs a valid name and a body.`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      name,
+      description: typeof description === "string" ? description : "",
+      body,
+    };
+  });
+};
+
+// Imported templates replace local ones with the same name.
+export const mergeTemplates = (
+  existing: PromptTemplate[],
+  imported: PromptTemplate[],
+): PromptTemplate[] => {
+  const names = new Set(imported.map((t) => t.name));
+  return [...existing.filter((t) => !names.has(t.name)), ...imported];
+};
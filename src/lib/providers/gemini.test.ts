@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  samplingSettings,
+} from "@/lib/generation-settings";
+import geminiProvider, { convertMessageToGeminiMessage } from "@/lib/providers/gemini";
+import type { StartChatParams } from "@/lib/providers/types";
+import type { Attachment, Message } from "@/lib/types";
+
+// A fake Gemini client: records each model and chat the provider creates,
+// and each chat keeps the turns it sends, as the real SDK's ChatSession does.
+interface FakeChat {
+  model: { model: string; systemInstruction?: string };
+  history: Array<{ role: string; parts: Array<{ text?: string }> }>;
+  sent: unknown[];
+}
+
+const chats: FakeChat[] = [];
+
+vi.mock("@google/generative-ai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@google/generative-ai")>();
+  class GoogleGenerativeAI {
+    getGenerativeModel(model: FakeChat["model"]) {
+      return {
+        startChat: ({ history }: { history: FakeChat["history"] }) => {
+          const chat: FakeChat = { model, history: [...history], sent: [] };
+          chats.push(chat);
+          return {
+            sendMessageStream: async (parts: unknown) => {
+              chat.sent.push(parts);
+              return {
+                stream: (async function* () {
+                  yield { text: () => "reply" };
+                })(),
+              };
+            },
+          };
+        },
+      };
+    }
+  }
+  return { ...actual, GoogleGenerativeAI };
+});
+
+const image: Attachment = {
+  id: "a1",
+  name: "screenshot.png",
+  mimeType: "image/png",
+  size: 3,
+  kind: "image",
+  data: "AAAA",
+};
+
+const message = (role: Message["role"], text: string): Message => ({
+  role,
+  parts: [{ text }],
+});
+
+const params = (overrides: Partial<StartChatParams> = {}): StartChatParams => ({
+  model: "gemini-1.5-pro",
+  systemInstruction: "Be brief.",
+  sampling: samplingSettings(DEFAULT_GENERATION_SETTINGS),
+  history: [message("user", "Hi"), message("model", "Hello!")],
+  ...overrides,
+});
+
+const historyTexts = (chat: FakeChat) => chat.history.map((turn) => turn.parts[0].text);
+
+const send = async (params: StartChatParams, text: string) => {
+  const session = geminiProvider.startChat({ apiKey: "key" }, params);
+  let reply = "";
+  for await (const chunk of await session.sendMessageStream(message("user", text))) {
+    reply += chunk;
+  }
+  return reply;
+};
+
+beforeEach(() => {
+  chats.length = 0;
+});
+
+describe("convertMessageToGeminiMessage", () => {
+  it("sends an image-only message without an empty text part", () => {
+    expect(
+      convertMessageToGeminiMessage({ role: "user", parts: [{ text: "" }], attachments: [image] }),
+    ).toEqual({
+      role: "user",
+      parts: [{ inlineData: { mimeType: "image/png", data: "AAAA" } }],
+    });
+  });
+
+  it("puts the message text before its attachments", () => {
+    const { parts } = convertMessageToGeminiMessage({
+      role: "user",
+      parts: [{ text: "What is this?" }],
+      attachments: [image],
+    });
+    expect(parts).toEqual([
+      { text: "What is this?" },
+      { inlineData: { mimeType: "image/png", data: "AAAA" } },
+    ]);
+  });
+});
+
+describe("geminiProvider.startChat", () => {
+  it("passes the system prompt as the model's system instruction, not as a turn", () => {
+    geminiProvider.startChat({ apiKey: "key" }, params());
+    expect(chats).toHaveLength(1);
+    expect(chats[0].model.systemInstruction).toBe("Be brief.");
+    expect(historyTexts(chats[0])).toEqual(["Hi", "Hello!"]);
+  });
+
+  it("builds the chat from exactly the history it is given", () => {
+    geminiProvider.startChat({ apiKey: "key" }, params({ history: [] }));
+    expect(chats[0].history).toEqual([]);
+  });
+
+  it("starts a new chat each time, without the turns earlier chats sent", async () => {
+    expect(await send(params(), "First try")).toBe("reply");
+    await send(params({ model: "gemini-1.5-flash" }), "Second try");
+    expect(chats.map((chat) => chat.model.model)).toEqual([
+      "gemini-1.5-pro",
+      "gemini-1.5-flash",
+    ]);
+    expect(historyTexts(chats[1])).toEqual(["Hi", "Hello!"]);
+    expect(chats[1].sent).toEqual([[{ text: "Second try" }]]);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIResponseError,
+  HarmBlockThreshold,
+  HarmCategory,
+  type Part,
+  type SafetySetting,
+} from "@google/generative-ai";
+
+import { attachmentToText } from "@/lib/attachments";
+import { messageToText } from "@/lib/providers/history";
+import type { SafetyCategory, SamplingSettings } from "@/lib/generation-settings";
+import { ModelError, ProviderHttpError } from "@/lib/model-errors";
+import type { LLMProvider } from "@/lib/providers/types";
+import type { Message } from "@/lib/types";
+
+export interface GeminiMessage {
+  role: "user" | "model";
+  parts: Part[];
+}
+
+const MODELS_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+// Images go as inline data; text files as labelled text parts after the
+// message text. Gemini rejects empty text parts, so an image-only message
+// has none.
+export const convertMessageToGeminiMessage = (message: Message): GeminiMessage => {
+  const text = messageToText(message);
+  return {
+    role: message.role,
+    parts: [
+      ...(text ? [{ text }] : []),
+      ...(message.attachments ?? []).map((attachment): Part =>
+        attachment.kind === "image"
+          ? { inlineData: { mimeType: attachment.mimeType, data: attachment.data } }
+          : { text: attachmentToText(attachment) },
+      ),
+    ],
+  };
+};
+
+export const convertMessagesToGeminiMessages = (messages: Message[]): GeminiMessage[] => {
+  return messages.map(message => convertMessageToGeminiMessage(message));
+};
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const safetySettings = ({ safety }: SamplingSettings): SafetySetting[] =>
+  Object.entries(safety).map(([category, threshold]) => ({
+    category: HARM_CATEGORIES[category as SafetyCategory],
+    threshold: threshold as HarmBlockThreshold,
+  }));
+
+interface GeminiModelList {
+  models?: Array<{ name: string; supportedGenerationMethods?: string[] }>;
+}
+
+const geminiProvider: LLMProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  apiKeyRequired: true,
+  defaultModels: ["gemini-1.5-pro", "gemini-1.5-flash"],
+
+  async listModels({ apiKey }) {
+    const response = await fetch(`${MODELS_URL}?key=${encodeURIComponent(apiKey)}`);
+    if (!response.ok) {
+      throw new ProviderHttpError(
+        response.status,
+        `Failed to list Gemini models: ${response.status}`,
+      );
+    }
+    const { models = [] }: GeminiModelList = await response.json();
+    return models
+      .filter((m) => m.supportedGenerationMethods?.includes("generateContent"))
+      .map((m) => m.name.replace(/^models\//, ""));
+  },
+
+  startChat({ apiKey }, { model, systemInstruction, sampling, history }) {
+    const chat = new GoogleGenerativeAI(apiKey)
+      .getGenerativeModel({
+        model,
+        systemInstruction,
+        generationConfig: {
+          temperature: sampling.temperature,
+          topP: sampling.topP,
+          topK: sampling.topK,
+          maxOutputTokens: sampling.maxOutputTokens,
+          stopSequences: sampling.stopSequences,
+        },
+        safetySettings: safetySettings(sampling),
+      })
+      .startChat({ history: convertMessagesToGeminiMessages(history) });
+
+    return {
+      async sendMessageStream(message, options) {
+        const { parts } = convertMessageToGeminiMessage(message);
+        const result = await chat.sendMessageStream(parts, {
+          signal: options?.signal,
+        });
+        return (async function* () {
+          try {
+            for await (const chunk of result.stream) {
+              yield chunk.text();
+            }
+          } catch (error) {
+            // The SDK reports blocked and unparseable responses alike.
+            if (error instanceof GoogleGenerativeAIResponseError) {
+              throw new ModelError(
+                /blocked/i.test(error.message) ? "safety" : "malformedResponse",
+                error.message,
+              );
+            }
+            throw error;
+          }
+        })();
+      },
+    };
+  },
+};
+
+export default geminiProvider;
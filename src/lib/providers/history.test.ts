@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { messageToText } from "@/lib/providers/history";
+import type { Artifact, Message } from "@/lib/types";
+
+const original: Artifact = {
+  identifier: "greeting",
+  type: "text/html",
+  title: "Greeting",
+  content: "<p>Original</p>",
+};
+
+const reply: Message = {
+  role: "model",
+  parts: [
+    {
+      text: `Here it is:\n<antArtifact identifier="greeting" type="text/html" title="Greeting">\n<p>Original</p>\n</antArtifact>\nEnjoy!`,
+    },
+  ],
+  artifacts: [original],
+};
+
+describe("messageToText", () => {
+  it("sends each artifact's content once, from the message's artifacts", () => {
+    const text = messageToText(reply);
+    expect(text.split("<p>Original</p>")).toHaveLength(2);
+    expect(text).toContain('Here it is:\n[Artifact "greeting", listed below]\nEnjoy!');
+    expect(text).toContain("Identifier: greeting\nTitle: Greeting\nContent: <p>Original</p>");
+  });
+
+  it("sends the user's edit instead of the original", () => {
+    const edited = { ...original, content: "<p>Edited</p>", editedByUser: true };
+    const text = messageToText({ ...reply, artifacts: [original, edited] });
+    expect(text).not.toContain("<p>Original</p>");
+    expect(text).toContain("Content: <p>Edited</p>");
+    expect(text).toContain("Note: This version was edited by the user.");
+  });
+
+  it("keeps an unterminated artifact so a stopped reply can be continued", () => {
+    const stopped: Message = {
+      role: "model",
+      parts: [{ text: `<antArtifact identifier="page" type="text/html">\n<p>Half` }],
+      truncated: true,
+    };
+    expect(messageToText(stopped)).toBe(stopped.parts[0].text);
+  });
+});
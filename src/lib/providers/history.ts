@@ -0,0 +1,37 @@
+import { replaceArtifacts } from "@/lib/artifact-parser";
+import type { Artifact, Message } from "@/lib/types";
+
+// A user's saved edit is stored after the model's version in the same
+// message; only the newest copy of each identifier is sent.
+const latestPerIdentifier = (artifacts: Artifact[]): Artifact[] => [
+  ...new Map(artifacts.map((artifact) => [artifact.identifier, artifact])).values(),
+];
+
+const artifactReference = ({ identifier }: Record<string, string>) =>
+  `[Artifact "${identifier}", listed below]`;
+
+// Flattens a message and its artifacts into the single text block every
+// provider sends for that turn. Artifact content comes only from
+// `message.artifacts`, which holds user edits and superseded notes; the copy
+// written inline in a reply is reduced to a reference.
+export const messageToText = (message: Message): string => {
+  // Start with the text parts of the message
+  const partsText = message.parts
+    .map(part => replaceArtifacts(part.text, artifactReference))
+    .join("\n");
+
+  // If there are artifacts, convert them and append to the parts text
+  let artifactsText = "";
+  if (message.artifacts && message.artifacts.length > 0) {
+    artifactsText = latestPerIdentifier(message.artifacts).map(artifact => {
+      const note = artifact.editedByUser ? "\nNote: This version was edited by the user." : "";
+      return `Identifier: ${artifact.identifier}\nTitle: ${artifact.title}\nContent: ${artifact.content}\nType: ${artifact.type}\nLanguage: ${artifact.language || "N/A"}${note}`;
+    }).join("\n\n");
+  }
+
+  const directive = message.artifactType
+    ? `\n\nRespond with an artifact of type "${message.artifactType}".`
+    : "";
+
+  return `${partsText}${directive}${artifactsText ? "\n\n" + artifactsText : ""}`;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { ModelError } from "@/lib/model-errors";
+import { requireText } from "@/lib/providers";
+
+const streamOf = async function* (...chunks: string[]) {
+  yield* chunks;
+};
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe("requireText", () => {
+  it("passes the chunks of a reply with text through", async () => {
+    expect(await collect(requireText(streamOf("", "Hello", " there")))).toEqual([
+      "",
+      "Hello",
+      " there",
+    ]);
+  });
+
+  it("fails a reply that ends without text with a retryable error", async () => {
+    const error = await collect(requireText(streamOf("", ""))).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ModelError);
+    expect(error).toMatchObject({ kind: "malformedResponse", transient: true });
+  });
+
+  it("fails a stream with no chunks at all", async () => {
+    await expect(collect(requireText(streamOf()))).rejects.toThrow("empty response");
+  });
+});
@@ -0,0 +1,53 @@
+import { ModelError } from "@/lib/model-errors";
+import geminiProvider from "@/lib/providers/gemini";
+import openAICompatibleProvider from "@/lib/providers/openai";
+import type { LLMProvider, ProviderConfig, ProviderId } from "@/lib/providers/types";
+
+export type {
+  LLMProvider,
+  ProviderChatSession,
+  ProviderConfig,
+  ProviderId,
+} from "@/lib/providers/types";
+
+export const providers: Record<ProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+};
+
+// Passes a reply stream through, but fails it if it ends without any text.
+// An empty reply can't be kept: Gemini drops its empty part, and the
+// partless turn would then be rejected in every later request.
+export async function* requireText(stream: AsyncIterable<string>): AsyncIterable<string> {
+  let empty = true;
+  for await (const chunk of stream) {
+    if (chunk) empty = false;
+    yield chunk;
+  }
+  if (empty) {
+    throw new ModelError("malformedResponse", "The model returned an empty response.", true);
+  }
+}
+
+// What is saved for each provider. API keys live in the key vault, and
+// `keyId` picks which of the provider's keys to use.
+export interface SavedProviderConfig extends Omit<ProviderConfig, "apiKey"> {
+  keyId?: string;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  configs: Record<ProviderId, SavedProviderConfig>;
+}
+
+export const defaultProviderSettings = (): ProviderSettings => ({
+  provider: "gemini",
+  configs: {
+    gemini: {
+      model: geminiProvider.defaultModels[0],
+    },
+    openai: {
+      baseUrl: openAICompatibleProvider.defaultBaseUrl,
+    },
+  },
+});
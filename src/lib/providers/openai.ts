@@ -0,0 +1,146 @@
+import { attachmentDataUri, attachmentToText } from "@/lib/attachments";
+import { ModelError, ProviderHttpError, retryAfterMs } from "@/lib/model-errors";
+import { messageToText } from "@/lib/providers/history";
+import type { LLMProvider, ProviderConfig } from "@/lib/providers/types";
+import type { Message } from "@/lib/types";
+
+type ChatCompletionContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatCompletionContentPart[];
+}
+
+// Messages with attachments use the multi-part content format, which
+// vision-capable servers accept; plain messages stay plain strings.
+const convertMessage = (message: Message): ChatCompletionMessage => {
+  const role = message.role === "model" ? "assistant" : "user";
+  const text = messageToText(message);
+  if (!message.attachments?.length) return { role, content: text };
+  return {
+    role,
+    content: [
+      ...(text ? [{ type: "text" as const, text }] : []),
+      ...message.attachments.map((attachment): ChatCompletionContentPart =>
+        attachment.kind === "image"
+          ? { type: "image_url", image_url: { url: attachmentDataUri(attachment) } }
+          : { type: "text", text: attachmentToText(attachment) },
+      ),
+    ],
+  };
+};
+
+export const convertMessagesToChatCompletionMessages = (
+  systemInstruction: string,
+  messages: Message[],
+): ChatCompletionMessage[] => [
+  { role: "system", content: systemInstruction },
+  ...messages.map(convertMessage),
+];
+
+const endpoint = ({ baseUrl }: ProviderConfig, path: string) =>
+  `${(baseUrl || openAICompatibleProvider.defaultBaseUrl)!.replace(/\/+$/, "")}${path}`;
+
+const headers = ({ apiKey }: ProviderConfig): HeadersInit => ({
+  "Content-Type": "application/json",
+  ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+});
+
+// Reads a chat-completions server-sent event stream and yields the content
+// deltas until the terminating `[DONE]` event.
+async function* readCompletionStream(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data) continue;
+        if (data === "[DONE]") return;
+        let choice;
+        try {
+          choice = JSON.parse(data).choices?.[0];
+        } catch {
+          throw new ModelError("malformedResponse", `Unreadable stream event: ${data}`);
+        }
+        if (choice?.finish_reason === "content_filter") {
+          throw new ModelError("safety", "The response was blocked by the server's content filter.");
+        }
+        const content = choice?.delta?.content;
+        if (content) yield content as string;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Any server speaking the OpenAI chat-completions API, including local ones
+// such as Ollama or the llama.cpp server.
+const openAICompatibleProvider: LLMProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+  apiKeyRequired: false,
+  defaultBaseUrl: "http://localhost:11434/v1",
+  defaultModels: [],
+
+  async listModels(config) {
+    const response = await fetch(endpoint(config, "/models"), {
+      headers: headers(config),
+    });
+    if (!response.ok) {
+      throw new ProviderHttpError(
+        response.status,
+        `Failed to list models: ${response.status}`,
+      );
+    }
+    const { data = [] }: { data?: Array<{ id: string }> } = await response.json();
+    return data.map((m) => m.id);
+  },
+
+  startChat(config, { model, systemInstruction, sampling, history }) {
+    const messages = convertMessagesToChatCompletionMessages(
+      systemInstruction,
+      history,
+    );
+
+    return {
+      async sendMessageStream(message, options) {
+        const response = await fetch(endpoint(config, "/chat/completions"), {
+          method: "POST",
+          headers: headers(config),
+          body: JSON.stringify({
+            model,
+            stream: true,
+            temperature: sampling.temperature,
+            top_p: sampling.topP,
+            // Not part of the OpenAI API, but understood by Ollama and the
+            // llama.cpp server. Only sent when set.
+            top_k: sampling.topK,
+            max_tokens: sampling.maxOutputTokens,
+            stop: sampling.stopSequences.length > 0 ? sampling.stopSequences : undefined,
+            messages: [...messages, convertMessage(message)],
+          }),
+          signal: options?.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new ProviderHttpError(
+            response.status,
+            `Chat completion failed: ${response.status} ${await response.text()}`,
+            retryAfterMs(response),
+          );
+        }
+        return readCompletionStream(response.body);
+      },
+    };
+  },
+};
+
+export default openAICompatibleProvider;
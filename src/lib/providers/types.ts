@@ -0,0 +1,42 @@
+import type { SamplingSettings } from "@/lib/generation-settings";
+import type { Message } from "@/lib/types";
+
+export type ProviderId = "gemini" | "openai";
+
+export interface ProviderConfig {
+  apiKey: string;
+  // Only used by providers that talk to a user-chosen server.
+  baseUrl?: string;
+  model?: string;
+}
+
+export interface StartChatParams {
+  model: string;
+  systemInstruction: string;
+  sampling: SamplingSettings;
+  // Messages before the turn about to be sent.
+  history: Message[];
+}
+
+export interface SendMessageOptions {
+  signal?: AbortSignal;
+}
+
+export interface ProviderChatSession {
+  // Resolves once the request is accepted; the iterable yields text chunks.
+  sendMessageStream(
+    message: Message,
+    options?: SendMessageOptions,
+  ): Promise<AsyncIterable<string>>;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  apiKeyRequired: boolean;
+  defaultBaseUrl?: string;
+  // Offered when the provider cannot be asked for its model list.
+  defaultModels: string[];
+  listModels(config: ProviderConfig): Promise<string[]>;
+  startChat(config: ProviderConfig, params: StartChatParams): ProviderChatSession;
+}
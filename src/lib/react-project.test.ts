@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  mergeProjectUpdate,
+  parseProjectFiles,
+  resolveImport,
+  serializeProject,
+  type ProjectFile,
+} from "@/lib/react-project";
+
+const project = (files: Record<string, string>): ProjectFile[] =>
+  Object.entries(files).map(([path, content]) => ({ path, content }));
+
+describe("parseProjectFiles", () => {
+  it("reads back serialized files exactly", () => {
+    const files = project({
+      "App.tsx": "export default () => null;\n",
+      "notes.md": "\nStarts with a blank line",
+      "trailing.ts": "const a = 1;   ",
+      "empty.ts": "",
+      "blank.ts": "\n\n",
+    });
+    expect(parseProjectFiles(serializeProject(files)).files).toEqual(files);
+  });
+
+  it("keeps a newline typed at the end of a file", () => {
+    const files = project({ "App.tsx": "export default () => null;" });
+    const edited = project({ "App.tsx": "export default () => null;\n" });
+    const reparsed = parseProjectFiles(serializeProject(edited)).files;
+    expect(reparsed).toEqual(edited);
+    expect(reparsed).not.toEqual(files);
+  });
+
+  it("normalizes paths and lists deletions", () => {
+    const { files, deleted } = parseProjectFiles(
+      '<antFile path="./src/../App.tsx">\nA\n</antFile>\n<antFile path="old.ts" delete="true" />',
+    );
+    expect(files).toEqual(project({ "App.tsx": "A" }));
+    expect(deleted).toEqual(["old.ts"]);
+  });
+});
+
+describe("mergeProjectUpdate", () => {
+  const previous = serializeProject(
+    project({ "App.tsx": "app v1", "Chart.tsx": "chart v1", "old.ts": "old" }),
+  );
+
+  it("replaces updated files, removes deleted ones and keeps the rest", () => {
+    const update =
+      '<antFile path="Chart.tsx">\nchart v2\n</antFile>\n<antFile path="old.ts" delete="true" />\n<antFile path="new.ts">\nnew\n</antFile>';
+    expect(parseProjectFiles(mergeProjectUpdate(previous, update)).files).toEqual(
+      project({ "App.tsx": "app v1", "Chart.tsx": "chart v2", "new.ts": "new" }),
+    );
+  });
+
+  it("returns the previous files unchanged for an empty update", () => {
+    expect(mergeProjectUpdate(previous, "")).toBe(previous);
+  });
+});
+
+describe("resolveImport", () => {
+  const paths = new Set(["App.tsx", "components/Chart.tsx", "lib/index.ts", "data.json"]);
+
+  it("tries extensions and index files", () => {
+    expect(resolveImport("App.tsx", "./components/Chart", paths)).toBe("components/Chart.tsx");
+    expect(resolveImport("App.tsx", "./lib", paths)).toBe("lib/index.ts");
+    expect(resolveImport("App.tsx", "./data.json", paths)).toBe("data.json");
+  });
+
+  it("resolves relative to the importing file", () => {
+    expect(resolveImport("components/Chart.tsx", "../lib", paths)).toBe("lib/index.ts");
+    expect(resolveImport("components/Chart.tsx", "./lib", paths)).toBeNull();
+  });
+
+  it("returns null for files that aren't in the project", () => {
+    expect(resolveImport("App.tsx", "./missing", paths)).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { parseAttributes } from "@/lib/artifact-parser";
+import type { Artifact, Message } from "@/lib/types";
+
+// A React artifact made of several files. Its content is a series of
+//   <antFile path="components/Chart.tsx">...</antFile>
+// blocks; an update may carry only the files that change, plus
+// <antFile path="..." delete="true" /> for files to remove.
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+const FILE_REGEX = /<antFile\b([^>]*?)(?:\/>|>([\s\S]*?)<\/antFile>)/g;
+
+const ENTRY_CANDIDATES = ["App.tsx", "App.jsx", "App.ts", "App.js", "index.tsx", "index.jsx"];
+const IMPORT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+
+export const isReactProject = (artifact: Pick<Artifact, "type" | "content">) =>
+  artifact.type === "application/vnd.ant.react" && /<antFile\b/.test(artifact.content);
+
+// Resolves "." and ".." segments; paths never start with a slash.
+export const normalizePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join("/");
+};
+
+// serializeProject puts a newline after the opening tag and before the
+// closing one. Only those are dropped, so an edited file reads back exactly.
+const stripSeparators = (content: string) =>
+  content.replace(/^\r?\n/, "").replace(/\r?\n$/, "");
+
+export const parseProjectFiles = (
+  content: string,
+): { files: ProjectFile[]; deleted: string[] } => {
+  const files = new Map<string, string>();
+  const deleted: string[] = [];
+  for (const match of content.matchAll(FILE_REGEX)) {
+    const attributes = parseAttributes(match[1]);
+    const path = normalizePath(attributes.path ?? "");
+    if (!path) continue;
+    if (attributes.delete === "true" || attributes.delete === "") {
+      files.delete(path);
+      deleted.push(path);
+    } else {
+      files.set(path, stripSeparators(match[2] ?? ""));
+    }
+  }
+  return {
+    files: [...files].map(([path, fileContent]) => ({ path, content: fileContent })),
+    deleted,
+  };
+};
+
+export const serializeProject = (files: ProjectFile[]): string =>
+  files.map((file) => `<antFile path="${file.path}">\n${file.content}\n</antFile>`).join("\n\n");
+
+export const projectEntry = (files: ProjectFile[]): ProjectFile | undefined =>
+  ENTRY_CANDIDATES.map((path) => files.find((file) => file.path === path)).find(Boolean) ??
+  files[0];
+
+// The project path a relative import refers to, trying the usual
+// extensions and index files. Null when no file matches.
+export const resolveImport = (
+  fromPath: string,
+  specifier: string,
+  paths: Set<string>,
+): string | null => {
+  const directory = fromPath.split("/").slice(0, -1).join("/");
+  const base = normalizePath(`${directory}/${specifier}`);
+  const candidates = [
+    base,
+    ...IMPORT_EXTENSIONS.map((extension) => base + extension),
+    ...IMPORT_EXTENSIONS.map((extension) => `${base}/index${extension}`),
+  ];
+  return candidates.find((candidate) => paths.has(candidate)) ?? null;
+};
+
+const RELATIVE_IMPORT = /(?:from\s+|import\s*\(?\s*)["'](\.{1,2}\/[^"']*)["']/g;
+
+export const validateProject = (content: string): string[] => {
+  const { files } = parseProjectFiles(content);
+  if (files.length === 0) return ["The project has no files."];
+  const problems: string[] = [];
+  const entry = projectEntry(files)!;
+  if (!/export\s+default\b/.test(entry.content)) {
+    problems.push(`${entry.path} has no default export, so there is nothing to render.`);
+  }
+  const paths = new Set(files.map((file) => file.path));
+  for (const file of files) {
+    for (const [, specifier] of file.content.matchAll(RELATIVE_IMPORT)) {
+      if (!resolveImport(file.path, specifier, paths)) {
+        problems.push(`${file.path} imports "${specifier}", which isn't in the project.`);
+      }
+    }
+  }
+  return problems;
+};
+
+// Merges a project update into the previous version: files in the update
+// replace those with the same path, deletions remove them and the rest are
+// carried over.
+export const mergeProjectUpdate = (previous: string, update: string): string => {
+  const { files: updated, deleted } = parseProjectFiles(update);
+  const files = new Map(
+    parseProjectFiles(previous).files.map((file) => [file.path, file.content]),
+  );
+  deleted.forEach((path) => files.delete(path));
+  updated.forEach((file) => files.set(file.path, file.content));
+  return serializeProject([...files].map(([path, content]) => ({ path, content })));
+};
+
+// Completes partial project updates in a reply against the newest earlier
+// version of each identifier in `history`, or earlier in the same reply.
+export const applyProjectUpdates = (
+  artifacts: Artifact[],
+  history: Message[],
+): Artifact[] => {
+  const latest = new Map<string, Artifact>();
+  history.forEach((message) =>
+    message.artifacts?.forEach((artifact) => latest.set(artifact.identifier, artifact)),
+  );
+  return artifacts.map((artifact) => {
+    const previous = latest.get(artifact.identifier);
+    const merged =
+      previous && isReactProject(previous) && isReactProject(artifact)
+        ? { ...artifact, content: mergeProjectUpdate(previous.content, artifact.content) }
+        : artifact;
+    latest.set(artifact.identifier, merged);
+    return merged;
+  });
+};
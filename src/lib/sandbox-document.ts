@@ -0,0 +1,50 @@
+import { replacePlaceholderUrls } from "@/lib/placeholder";
+
+// The instructions promise the model exactly one external script origin.
+const SCRIPT_ORIGIN = "https://cdnjs.cloudflare.com";
+
+const HTML_POLICY = [
+  "default-src 'none'",
+  `script-src 'unsafe-inline' ${SCRIPT_ORIGIN}`,
+  `style-src 'unsafe-inline' ${SCRIPT_ORIGIN}`,
+  `font-src data: ${SCRIPT_ORIGIN}`,
+  "img-src data: blob:",
+  "media-src data: blob:",
+  "form-action 'none'",
+].join("; ");
+
+const SVG_POLICY = [
+  "default-src 'none'",
+  "style-src 'unsafe-inline'",
+  "img-src data:",
+].join("; ");
+
+const cspMeta = (policy: string) =>
+  `<meta http-equiv="Content-Security-Policy" content="${policy}">`;
+
+// Whole tags only, so <header> doesn't pass for <head>.
+const HEAD_TAG = /<head(\s[^>]*)?>/i;
+const HTML_TAG = /<html(\s[^>]*)?>/i;
+
+// The CSP <meta> only governs content that follows it, so it goes first in
+// <head>, creating one when the artifact is a bare fragment.
+const withPolicy = (html: string, policy: string): string => {
+  const meta = cspMeta(policy);
+  if (HEAD_TAG.test(html)) {
+    return html.replace(HEAD_TAG, (head) => head + meta);
+  }
+  if (HTML_TAG.test(html)) {
+    return html.replace(HTML_TAG, (tag) => `${tag}<head>${meta}</head>`);
+  }
+  return `<!doctype html><html><head>${meta}</head><body>${html}</body></html>`;
+};
+
+export const buildHtmlDocument = (content: string): string =>
+  withPolicy(replacePlaceholderUrls(content), HTML_POLICY);
+
+export const buildSvgDocument = (content: string): string =>
+  withPolicy(
+    `<style>html,body{margin:0;height:100%}body{display:flex;align-items:center;justify-content:center}svg{max-width:100%;max-height:100%}</style>` +
+      replacePlaceholderUrls(content),
+    SVG_POLICY,
+  );
@@ -0,0 +1,94 @@
+import { deflateSync, strToU8 } from "fflate";
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_SHARE_LINK_LENGTH,
+  ShareLinkError,
+  decodeSharedArtifact,
+  encodeSharedArtifact,
+  parseShareFragment,
+} from "@/lib/share-link";
+import type { Artifact } from "@/lib/types";
+
+const artifact: Artifact = {
+  identifier: "chart",
+  type: "application/vnd.ant.react",
+  title: "Sales chart",
+  content: "export default () => <div>Sales</div>;".repeat(20),
+  language: "tsx",
+};
+
+const DAMAGED = "This share link is damaged or incomplete";
+
+// A payload built from arbitrary JSON text, as another version of the app
+// might have written it.
+const payloadOf = (json: string) =>
+  btoa(String.fromCharCode(...deflateSync(strToU8(json))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const decodeError = (payload: string) => {
+  try {
+    decodeSharedArtifact(payload);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ShareLinkError);
+    return (error as Error).message;
+  }
+  throw new Error("The link was accepted");
+};
+
+describe("decodeSharedArtifact", () => {
+  it("reads back an encoded artifact", () => {
+    expect(decodeSharedArtifact(encodeSharedArtifact(artifact))).toEqual(artifact);
+  });
+
+  it("reports corrupted base64 as a damaged link", () => {
+    const payload = encodeSharedArtifact(artifact);
+    expect(decodeError(`${payload.slice(0, 10)}!*${payload.slice(12)}`)).toContain(DAMAGED);
+  });
+
+  it("reports a truncated link as a damaged link", () => {
+    const payload = encodeSharedArtifact(artifact);
+    expect(decodeError(payload.slice(0, Math.floor(payload.length / 2)))).toContain(DAMAGED);
+  });
+
+  it("reports data that doesn't inflate or isn't an artifact as a damaged link", () => {
+    expect(decodeError(btoa("not deflated at all"))).toContain(DAMAGED);
+    expect(decodeError(payloadOf("not json"))).toContain(DAMAGED);
+    const wrongFields = JSON.stringify({ version: 1, artifact: { title: 1 } });
+    expect(decodeError(payloadOf(wrongFields))).toContain(DAMAGED);
+  });
+
+  it("rejects links longer than the app accepts", () => {
+    expect(decodeError("A".repeat(MAX_SHARE_LINK_LENGTH + 1))).toBe(
+      "This share link is longer than the app accepts.",
+    );
+  });
+
+  it("rejects links that inflate to too much content", () => {
+    const payload = encodeSharedArtifact({ ...artifact, content: "a".repeat(2_100_000) });
+    expect(payload.length).toBeLessThan(MAX_SHARE_LINK_LENGTH);
+    expect(decodeError(payload)).toBe(
+      "This share link holds more content than the app accepts.",
+    );
+  });
+
+  it("asks for a reload when the link comes from a newer version", () => {
+    expect(decodeError(payloadOf(JSON.stringify({ version: 2, artifact })))).toContain(
+      "made by a newer version of the app",
+    );
+  });
+});
+
+describe("parseShareFragment", () => {
+  it("ignores fragments that aren't share links", () => {
+    expect(parseShareFragment("#section-2")).toBeNull();
+  });
+
+  it("returns the error for a damaged link instead of throwing", () => {
+    const route = parseShareFragment("#share=broken!");
+    expect(route).toMatchObject({ mode: "view", payload: "broken!" });
+    expect(route && "error" in route && route.error.message).toContain(DAMAGED);
+  });
+});
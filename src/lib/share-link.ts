@@ -0,0 +1,136 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+
+import type { Artifact } from "@/lib/types";
+
+// Share links carry the artifact itself, deflated and base64url-encoded in
+// the URL fragment, which browsers never send to a server.
+const SHARE_VERSION = 1;
+
+// `#share=` opens the read-only viewer; `#open=` starts a new chat with the
+// artifact, and is what the viewer links to.
+export type ShareMode = "view" | "open";
+
+const FRAGMENT = /^#(share|open)=(.*)$/;
+
+// Long URLs get truncated by chat apps and mail clients well before
+// browsers reject them.
+export const MAX_SHARE_LINK_LENGTH = 32_000;
+// Guards against links that inflate to something huge.
+const MAX_SHARED_CONTENT_LENGTH = 2_000_000;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so large artifacts don't overflow the argument list.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export const encodeSharedArtifact = ({
+  identifier,
+  type,
+  title,
+  content,
+  language,
+}: Artifact): string => {
+  const json = JSON.stringify({
+    version: SHARE_VERSION,
+    artifact: { identifier, type, title, content, language },
+  });
+  return toBase64Url(deflateSync(strToU8(json), { level: 9 }));
+};
+
+const appUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+export const shareFragment = (mode: ShareMode, payload: string) =>
+  `#${mode === "view" ? "share" : "open"}=${payload}`;
+
+// Throws ShareLinkError when the artifact doesn't fit in a link.
+export const shareUrl = (artifact: Artifact): string => {
+  const url = appUrl() + shareFragment("view", encodeSharedArtifact(artifact));
+  if (url.length > MAX_SHARE_LINK_LENGTH) {
+    throw new ShareLinkError(
+      `This artifact is too large to share as a link (${Math.ceil(url.length / 1000)} KB after compression, the limit is ${MAX_SHARE_LINK_LENGTH / 1000} KB). Download it instead.`,
+    );
+  }
+  return url;
+};
+
+const DAMAGED =
+  "This share link is damaged or incomplete. Ask for the link again, and make sure it was copied in full.";
+
+export const decodeSharedArtifact = (payload: string): Artifact => {
+  if (payload.length > MAX_SHARE_LINK_LENGTH) {
+    throw new ShareLinkError("This share link is longer than the app accepts.");
+  }
+  let json: string;
+  try {
+    const bytes = inflateSync(fromBase64Url(decodeURIComponent(payload)));
+    if (bytes.length > MAX_SHARED_CONTENT_LENGTH) {
+      throw new ShareLinkError("This share link holds more content than the app accepts.");
+    }
+    json = strFromU8(bytes);
+  } catch (error) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError(DAMAGED);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ShareLinkError(DAMAGED);
+  }
+  const { version, artifact } = (data ?? {}) as { version?: unknown; artifact?: unknown };
+  if (typeof version !== "number" || version > SHARE_VERSION) {
+    throw new ShareLinkError(
+      "This share link was made by a newer version of the app. Reload to update, then open it again.",
+    );
+  }
+  const fields = (artifact ?? {}) as Record<string, unknown>;
+  const { identifier, type, title, content, language } = fields;
+  if (
+    typeof identifier !== "string" ||
+    typeof type !== "string" ||
+    typeof title !== "string" ||
+    typeof content !== "string" ||
+    (language !== undefined && typeof language !== "string")
+  ) {
+    throw new ShareLinkError(DAMAGED);
+  }
+  return { identifier, type, title, content, ...(language && { language }) };
+};
+
+export type SharedArtifactRoute =
+  | { mode: ShareMode; payload: string; artifact: Artifact }
+  | { mode: ShareMode; payload: string; error: ShareLinkError };
+
+// Null for fragments that aren't share links.
+export const parseShareFragment = (hash: string): SharedArtifactRoute | null => {
+  const match = hash.match(FRAGMENT);
+  if (!match) return null;
+  const mode: ShareMode = match[1] === "share" ? "view" : "open";
+  const payload = match[2];
+  try {
+    return { mode, payload, artifact: decodeSharedArtifact(payload) };
+  } catch (error) {
+    return {
+      mode,
+      payload,
+      error: error instanceof ShareLinkError ? error : new ShareLinkError(DAMAGED),
+    };
+  }
+};
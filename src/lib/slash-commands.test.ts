@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { TemplateError, type PromptTemplate } from "@/lib/prompt-templates";
+import { CommandError, interpretInput, matchModel } from "@/lib/slash-commands";
+
+const templates: PromptTemplate[] = [
+  {
+    id: "t1",
+    name: "component",
+    description: "A component",
+    body: "Create a React component called {{name}}.",
+  },
+];
+
+const models = ["gemini-1.5-pro", "gemini-1.5-flash", "gemini-1.5-flash-8b"];
+
+const interpret = (input: string) => interpretInput(input, { templates, models });
+
+describe("matchModel", () => {
+  it("prefers an exact match, then a prefix, then a substring", () => {
+    expect(matchModel("gemini-1.5-flash", models)).toBe("gemini-1.5-flash");
+    expect(matchModel("GEMINI-1.5-P", models)).toBe("gemini-1.5-pro");
+    expect(matchModel("8b", models)).toBe("gemini-1.5-flash-8b");
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(matchModel("gpt", models)).toBeUndefined();
+  });
+});
+
+describe("interpretInput", () => {
+  it("sends plain text and unknown commands as typed", () => {
+    expect(interpret("Hello")).toEqual({ kind: "send", text: "Hello" });
+    expect(interpret("/usr/bin is empty")).toEqual({ kind: "send", text: "/usr/bin is empty" });
+    expect(interpret("/unknown thing")).toEqual({ kind: "send", text: "/unknown thing" });
+  });
+
+  it("expands templates with quoted arguments", () => {
+    expect(interpret('/component name="Price Table" with three tiers')).toEqual({
+      kind: "send",
+      text: "Create a React component called Price Table.\n\nwith three tiers",
+    });
+  });
+
+  it("reports missing template arguments", () => {
+    expect(() => interpret("/component")).toThrow(TemplateError);
+  });
+
+  it("tags /artifact messages with the type, including expanded templates", () => {
+    expect(interpret("/artifact react a pricing table")).toEqual({
+      kind: "send",
+      text: "a pricing table",
+      artifactType: "application/vnd.ant.react",
+    });
+    expect(interpret("/artifact react /component name=Chart")).toMatchObject({
+      text: "Create a React component called Chart.",
+      artifactType: "application/vnd.ant.react",
+    });
+  });
+
+  it("leaves an /artifact command without a message for the composer to reject", () => {
+    expect(interpret("/artifact react")).toEqual({
+      kind: "send",
+      text: "",
+      artifactType: "application/vnd.ant.react",
+    });
+  });
+
+  it("rejects unknown or missing artifact types and nested commands", () => {
+    expect(() => interpret("/artifact poster a flyer")).toThrow(
+      'Unknown artifact type "poster"',
+    );
+    expect(() => interpret("/artifact")).toThrow("Name an artifact type");
+    expect(() => interpret("/artifact react /new chat")).toThrow(CommandError);
+  });
+
+  it("starts a new chat with the rest of the input", () => {
+    expect(interpret("/new Plan a trip")).toEqual({ kind: "newChat", text: "Plan a trip" });
+    expect(interpret("/new")).toEqual({ kind: "newChat", text: "" });
+  });
+
+  it("switches to the matching model", () => {
+    expect(interpret("/model flash")).toEqual({ kind: "model", model: "gemini-1.5-flash" });
+    expect(() => interpret("/model")).toThrow("Usage: /model <name>");
+    expect(() => interpret("/model gpt-4")).toThrow('No available model matches "gpt-4".');
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  findArtifactTypeByAlias,
+  listArtifactTypes,
+} from "@/lib/artifact-types";
+import {
+  expandTemplate,
+  templateVariables,
+  type PromptTemplate,
+} from "@/lib/prompt-templates";
+
+// What submitting the composer should do once commands and templates are
+// resolved.
+export type ComposerAction =
+  | { kind: "send"; text: string; artifactType?: string }
+  | { kind: "newChat"; text: string }
+  | { kind: "model"; model: string };
+
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+export interface SlashCommand {
+  name: string;
+  usage: string;
+  description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: "artifact",
+    usage: "/artifact <type> <message>",
+    description: "Ask for a reply with a specific artifact type",
+  },
+  {
+    name: "new",
+    usage: "/new [message]",
+    description: "Start a new chat",
+  },
+  {
+    name: "model",
+    usage: "/model <name>",
+    description: "Switch to the first model whose name matches",
+  },
+];
+
+export interface CommandSuggestion {
+  label: string;
+  description: string;
+  // Replaces the composer's text when the suggestion is picked.
+  insert: string;
+}
+
+const artifactAliases = () => listArtifactTypes().map((definition) => definition.alias);
+
+// Suggestions while the user is typing a command or template name, or the
+// type after /artifact.
+export const commandSuggestions = (
+  input: string,
+  templates: PromptTemplate[],
+): CommandSuggestion[] => {
+  const artifactMatch = input.match(/^\/artifact\s+([\w-]*)$/);
+  if (artifactMatch) {
+    return listArtifactTypes()
+      .filter((definition) => definition.alias.startsWith(artifactMatch[1].toLowerCase()))
+      .map((definition) => ({
+        label: definition.alias,
+        description: definition.label,
+        insert: `/artifact ${definition.alias} `,
+      }));
+  }
+  const match = input.match(/^\/([\w-]*)$/);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return [
+    ...SLASH_COMMANDS.filter((command) => command.name.startsWith(prefix)).map(
+      (command) => ({
+        label: command.usage,
+        description: command.description,
+        insert: `/${command.name} `,
+      }),
+    ),
+    ...templates
+      .filter((template) => template.name.startsWith(prefix))
+      .map((template) => {
+        // Required variables are filled in as `key=` to type after.
+        const args = templateVariables(template.body)
+          .filter((v) => v.default === undefined)
+          .map((v) => `${v.name}=`)
+          .join(" ");
+        return {
+          label: `/${template.name}`,
+          description: template.description,
+          insert: `/${template.name} ${args}`,
+        };
+      }),
+  ];
+};
+
+// Exact name first, then a prefix, then anywhere in the name.
+export const matchModel = (query: string, models: string[]): string | undefined => {
+  const needle = query.toLowerCase();
+  const names = models.map((model) => model.toLowerCase());
+  const index = [
+    names.indexOf(needle),
+    names.findIndex((name) => name.startsWith(needle)),
+    names.findIndex((name) => name.includes(needle)),
+  ].find((i) => i !== -1);
+  return index === undefined ? undefined : models[index];
+};
+
+// Resolves a leading slash command or template. Text that merely starts
+// with a slash (a path, say) is sent as typed. Throws CommandError or
+// TemplateError with a message for the composer.
+export const interpretInput = (
+  input: string,
+  { templates, models }: { templates: PromptTemplate[]; models: string[] },
+): ComposerAction => {
+  const match = input.match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+  if (!match) return { kind: "send", text: input };
+  const [, name, rest = ""] = match;
+
+  switch (name) {
+    case "artifact": {
+      const [, alias = "", message = ""] = rest.match(/^(\S*)\s*([\s\S]*)$/) ?? [];
+      const definition = findArtifactTypeByAlias(alias);
+      if (!definition) {
+        throw new CommandError(
+          `${alias ? `Unknown artifact type "${alias}"` : "Name an artifact type"}. Try one of: ${artifactAliases().join(", ")}.`,
+        );
+      }
+      const action = interpretInput(message, { templates, models });
+      if (action.kind !== "send") {
+        throw new CommandError("/artifact can only be followed by a message or a template.");
+      }
+      return { ...action, artifactType: definition.mimeType };
+    }
+    case "new":
+      return { kind: "newChat", text: rest };
+    case "model": {
+      const query = rest.trim();
+      if (!query) throw new CommandError("Usage: /model <name>");
+      const model = matchModel(query, models);
+      if (!model) throw new CommandError(`No available model matches "${query}".`);
+      return { kind: "model", model };
+    }
+  }
+
+  const template = templates.find((t) => t.name === name);
+  if (!template) return { kind: "send", text: input };
+  return { kind: "send", text: expandTemplate(template, rest) };
+};
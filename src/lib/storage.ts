@@ -0,0 +1,310 @@
+import type { LibraryItem } from "@/lib/artifact-library";
+import {
+  createConversation,
+  type Conversation,
+} from "@/lib/conversations";
+import type { GenerationSettings } from "@/lib/generation-settings";
+import type { KeyVault, UnencryptedApiKey } from "@/lib/key-vault";
+import { treeFromMessages } from "@/lib/message-tree";
+import {
+  defaultProviderSettings,
+  type ProviderConfig,
+  type ProviderId,
+  type ProviderSettings,
+} from "@/lib/providers";
+import type { PromptTemplate } from "@/lib/prompt-templates";
+import type { Message } from "@/lib/types";
+
+const DB_NAME = "artifactual";
+const CONVERSATIONS_STORE = "conversations";
+const SETTINGS_STORE = "settings";
+const LIBRARY_STORE = "library";
+
+export type StorageErrorKind = "quota" | "unavailable" | "failed";
+
+export class StorageError extends Error {
+  constructor(
+    readonly kind: StorageErrorKind,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
+
+export const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return new StorageError(
+      "quota",
+      "Browser storage is full, so recent changes were not saved. Export and delete old chats to free up space.",
+    );
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return new StorageError("failed", `Browser storage failed: ${detail}`);
+};
+
+// Keys used before storage moved to IndexedDB. They are read once by the
+// first migration and then removed.
+const LEGACY_KEYS = {
+  conversations: "conversations",
+  activeConversationId: "activeConversationId",
+  providerSettings: "providerSettings",
+  chatHistory: "chatHistory",
+  apiKey: "apiKey",
+  model: "model",
+};
+
+const readLegacyJson = <T>(key: string): T | undefined => {
+  const stored = localStorage.getItem(key);
+  if (stored === null) return undefined;
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error(`Ignoring unreadable localStorage key "${key}":`, error);
+    return undefined;
+  }
+};
+
+// Conversations saved before branching stored a flat `messages` array.
+const upgradeLegacyConversation = (
+  stored: Conversation & { messages?: Message[] },
+): Conversation => {
+  if (stored.tree) return stored;
+  const { messages = [], ...rest } = stored;
+  return { ...rest, tree: treeFromMessages(messages) };
+};
+
+const legacyConversations = (): Conversation[] => {
+  const stored = readLegacyJson<Conversation[]>(LEGACY_KEYS.conversations);
+  if (stored) return stored.map(upgradeLegacyConversation);
+  // Single-conversation history from before conversations were introduced.
+  const history = readLegacyJson<Message[]>(LEGACY_KEYS.chatHistory);
+  return history ? [createConversation(history)] : [];
+};
+
+// Provider settings as saved before API keys moved to the key vault.
+interface LegacyProviderSettings {
+  provider: ProviderId;
+  configs: Record<ProviderId, Partial<ProviderConfig>>;
+}
+
+const legacyProviderSettings = (): LegacyProviderSettings | undefined => {
+  const stored = readLegacyJson<LegacyProviderSettings>(LEGACY_KEYS.providerSettings);
+  if (stored) return stored;
+  const apiKey = localStorage.getItem(LEGACY_KEYS.apiKey);
+  const model = localStorage.getItem(LEGACY_KEYS.model);
+  if (apiKey === null && model === null) return undefined;
+  // Settings from before providers existed were Gemini-only.
+  const settings: LegacyProviderSettings = defaultProviderSettings();
+  settings.configs.gemini = {
+    apiKey: apiKey ?? "",
+    model: model ?? settings.configs.gemini.model,
+  };
+  return settings;
+};
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// One step per schema version; migrations[n] upgrades version n to n + 1.
+// Append new steps rather than editing old ones: they run for every user
+// whose database is older.
+const migrations: Migration[] = [
+  (db, transaction) => {
+    db.createObjectStore(CONVERSATIONS_STORE, { keyPath: "id" });
+    db.createObjectStore(SETTINGS_STORE);
+
+    const conversations = transaction.objectStore(CONVERSATIONS_STORE);
+    legacyConversations().forEach((c) => conversations.put(c));
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    const activeId = localStorage.getItem(LEGACY_KEYS.activeConversationId);
+    if (activeId) settings.put(activeId, "activeConversationId");
+    const providerSettings = legacyProviderSettings();
+    if (providerSettings) settings.put(providerSettings, "providerSettings");
+
+    transaction.addEventListener("complete", () => {
+      Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+    });
+  },
+  // The artifact library; the app indexes existing chats into it on load.
+  (db) => {
+    db.createObjectStore(LIBRARY_STORE, { keyPath: "id" });
+  },
+  // API keys leave the provider settings. They are set aside unencrypted
+  // only until the app next loads, which takes them out of storage and asks
+  // the user to encrypt or forget them.
+  (_db, transaction) => {
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    const request = settings.get("providerSettings");
+    request.onsuccess = () => {
+      const stored: LegacyProviderSettings | undefined = request.result;
+      if (!stored) return;
+      const unencrypted: UnencryptedApiKey[] = [];
+      const configs = Object.fromEntries(
+        Object.entries(stored.configs).map(([provider, { apiKey, ...config }]) => {
+          if (!apiKey) return [provider, config];
+          const id = crypto.randomUUID();
+          unencrypted.push({
+            id,
+            provider: provider as ProviderId,
+            name: "Saved key",
+            secret: apiKey,
+          });
+          return [provider, { ...config, keyId: id }];
+        }),
+      );
+      settings.put({ ...stored, configs }, "providerSettings");
+      if (unencrypted.length > 0) settings.put(unencrypted, "unencryptedApiKeys");
+    };
+  },
+];
+
+export const SCHEMA_VERSION = migrations.length;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new StorageError("unavailable", "This browser has no IndexedDB support."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) {
+        migrations[version](request.result, transaction);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(
+        new StorageError(
+          "unavailable",
+          `Browser storage could not be opened: ${request.error?.message ?? "unknown error"}`,
+        ),
+      );
+    request.onblocked = () =>
+      reject(
+        new StorageError(
+          "unavailable",
+          "Browser storage is being upgraded in another tab. Close other tabs of this app and reload.",
+        ),
+      );
+  });
+  // Let a later call try again instead of caching the failure.
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+};
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(toStorageError(transaction.error));
+    transaction.onabort = () => reject(toStorageError(transaction.error));
+  });
+
+const result = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+export interface StoredState {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  providerSettings: ProviderSettings | null;
+  generationSettings: GenerationSettings | null;
+  promptTemplates: PromptTemplate[] | null;
+  library: LibraryItem[];
+  keyVault: KeyVault | null;
+  unencryptedApiKeys: UnencryptedApiKey[];
+}
+
+export const loadStoredState = async (): Promise<StoredState> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([
+    CONVERSATIONS_STORE,
+    SETTINGS_STORE,
+    LIBRARY_STORE,
+  ]);
+  const settings = transaction.objectStore(SETTINGS_STORE);
+  const [
+    conversations,
+    activeConversationId,
+    providerSettings,
+    generationSettings,
+    promptTemplates,
+    library,
+    keyVault,
+    unencryptedApiKeys,
+  ] = await Promise.all([
+    result<Conversation[]>(transaction.objectStore(CONVERSATIONS_STORE).getAll()),
+    result<string | undefined>(settings.get("activeConversationId")),
+    result<ProviderSettings | undefined>(settings.get("providerSettings")),
+    result<GenerationSettings | undefined>(settings.get("generationSettings")),
+    result<PromptTemplate[] | undefined>(settings.get("promptTemplates")),
+    result<LibraryItem[]>(transaction.objectStore(LIBRARY_STORE).getAll()),
+    result<KeyVault | null | undefined>(settings.get("keyVault")),
+    result<UnencryptedApiKey[] | undefined>(settings.get("unencryptedApiKeys")),
+  ]);
+  return {
+    conversations,
+    activeConversationId: activeConversationId ?? null,
+    providerSettings: providerSettings ?? null,
+    generationSettings: generationSettings ?? null,
+    promptTemplates: promptTemplates ?? null,
+    library,
+    keyVault: keyVault ?? null,
+    unencryptedApiKeys: unencryptedApiKeys ?? [],
+  };
+};
+
+// Writes the records that changed since `previous` and deletes the ones
+// that are gone. Unchanged records keep their object identity in state, so
+// they are skipped.
+const syncRecords = async <T extends { id: string }>(
+  storeName: string,
+  previous: T[],
+  next: T[],
+) => {
+  const before = new Map(previous.map((r) => [r.id, r]));
+  const changed = next.filter((r) => before.get(r.id) !== r);
+  const nextIds = new Set(next.map((r) => r.id));
+  const removed = previous.filter((r) => !nextIds.has(r.id));
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, "readwrite");
+  const store = transaction.objectStore(storeName);
+  changed.forEach((r) => store.put(r));
+  removed.forEach((r) => store.delete(r.id));
+  await completion(transaction);
+};
+
+export const syncConversations = (previous: Conversation[], next: Conversation[]) =>
+  syncRecords(CONVERSATIONS_STORE, previous, next);
+
+export const syncLibrary = (previous: LibraryItem[], next: LibraryItem[]) =>
+  syncRecords(LIBRARY_STORE, previous, next);
+
+export interface StoredSettings {
+  activeConversationId: string;
+  providerSettings: ProviderSettings;
+  generationSettings: GenerationSettings;
+  promptTemplates: PromptTemplate[];
+  keyVault: KeyVault | null;
+  unencryptedApiKeys: UnencryptedApiKey[];
+}
+
+export const saveSetting = async <K extends keyof StoredSettings>(
+  key: K,
+  value: StoredSettings[K],
+) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SETTINGS_STORE, "readwrite");
+  transaction.objectStore(SETTINGS_STORE).put(value, key);
+  await completion(transaction);
+};
@@ -0,0 +1,46 @@
+import { attachmentToText } from "@/lib/attachments";
+import { messageToText } from "@/lib/providers/history";
+import type { Message } from "@/lib/types";
+
+// Gemini bills each inline image as a fixed number of tokens.
+const IMAGE_TOKENS = 258;
+
+// Used for models the table below doesn't know, typically local ones.
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gemini-1\.5-pro/, 2_097_152],
+  [/gemini-(1\.5-flash|2)/, 1_048_576],
+  [/gemini-(1\.0-)?pro/, 30_720],
+  [/gpt-4o|gpt-4\.1|gpt-4-turbo/, 128_000],
+  [/llama-?3\.[1-3]/, 131_072],
+  [/qwen2\.5|mistral|mixtral/, 32_768],
+];
+
+// Providers don't expose their tokenizers, so counts are estimated at
+// roughly four characters per token. That is close for English prose and
+// code and errs high for most other text.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const messageTokens = (message: Message): number =>
+  estimateTokens(messageToText(message)) +
+  (message.attachments ?? []).reduce(
+    (sum, attachment) =>
+      sum +
+      (attachment.kind === "image"
+        ? IMAGE_TOKENS
+        : estimateTokens(attachmentToText(attachment))),
+    0,
+  );
+
+export const contextWindowFor = (model: string, override?: number): number => {
+  if (override) return override;
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+};
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
@@ -0,0 +1,33 @@
+export interface Message {
+  role: "user" | "model";
+  parts: Array<{ text: string }>;
+  artifacts?: Artifact[];
+  // Files the user attached to this turn.
+  attachments?: Attachment[];
+  // Artifact type the reply must use, chosen with the /artifact command.
+  artifactType?: string;
+  // Set when generation was stopped before the model finished.
+  truncated?: boolean;
+}
+
+export interface Artifact {
+  identifier: string;
+  type: string;
+  title: string;
+  content: string;
+  language?: string;
+  // Set on versions saved from the artifact editor rather than written by
+  // the model.
+  editedByUser?: boolean;
+}
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Size of the original file in bytes.
+  size: number;
+  kind: "image" | "text";
+  // Base64 without a data URI prefix for images, the file's text otherwise.
+  data: string;
+}
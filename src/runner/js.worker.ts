@@ -0,0 +1,56 @@
+import { transform } from "sucrase";
+
+import type { OutputStream, RunRequest, RunnerEvent } from "@/runner/protocol";
+
+const post = (event: RunnerEvent) =>
+  (self as unknown as Worker).postMessage(event);
+
+const format = (value: unknown): string => {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+  if (typeof value === "function") return `[Function ${value.name || "anonymous"}]`;
+  if (typeof value === "undefined") return "undefined";
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const capture = (stream: OutputStream) => (...args: unknown[]) =>
+  post({ type: "output", stream, text: args.map(format).join(" ") });
+
+console.log = capture("log");
+console.info = capture("info");
+console.debug = capture("log");
+console.warn = capture("warn");
+console.error = capture("error");
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+
+// Runs the code as the body of an async function, so top-level await works.
+// The worker has no DOM; the app terminates it when the run times out.
+self.onmessage = async (event: MessageEvent<RunRequest>) => {
+  const { language, code } = event.data;
+  let source: string;
+  try {
+    source =
+      language === "typescript"
+        ? transform(code, { transforms: ["typescript"], disableESTransforms: true }).code
+        : code;
+  } catch (error) {
+    post({ type: "error", message: `Compile error: ${format(error)}` });
+    return;
+  }
+  post({ type: "started" });
+  try {
+    await new AsyncFunction(source)();
+    post({ type: "done" });
+  } catch (error) {
+    post({ type: "error", message: format(error) });
+  }
+};
+
+self.addEventListener("unhandledrejection", (event) => {
+  post({ type: "error", message: `Unhandled rejection: ${format(event.reason)}` });
+});
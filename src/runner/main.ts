@@ -0,0 +1,90 @@
+import jsWorkerUrl from "./js.worker.ts?worker&url";
+import pythonWorkerUrl from "./python.worker.ts?worker&url";
+import type {
+  RunnerEvent,
+  RunnerFrameEvent,
+  RunnerFrameRequest,
+  RunnerLanguage,
+} from "./protocol";
+
+// Runs inside the hidden runner iframe. It has an opaque origin, so the
+// workers it starts can't open the app's IndexedDB, and runner.html's CSP
+// keeps them off the network.
+
+const post = (event: RunnerFrameEvent) => {
+  window.parent.postMessage(event, "*");
+};
+
+const bootstrapUrls = new Map<string, string>();
+
+// A worker loaded from its own URL takes its CSP from the response headers,
+// which static hosting doesn't set. One started from a blob inherits this
+// page's policy, so each worker is a blob that imports the real script.
+const startWorker = (scriptUrl: string) => {
+  let bootstrapUrl = bootstrapUrls.get(scriptUrl);
+  if (!bootstrapUrl) {
+    const source = `import ${JSON.stringify(new URL(scriptUrl, location.href).href)};`;
+    bootstrapUrl = URL.createObjectURL(new Blob([source], { type: "text/javascript" }));
+    bootstrapUrls.set(scriptUrl, bootstrapUrl);
+  }
+  return new Worker(bootstrapUrl, { type: "module" });
+};
+
+// Loading Pyodide is slow, so its worker outlives a run unless the run has
+// to be killed.
+let pythonWorker: Worker | null = null;
+
+const createWorker = (language: RunnerLanguage) => {
+  if (language !== "python") return startWorker(jsWorkerUrl);
+  pythonWorker ??= startWorker(pythonWorkerUrl);
+  return pythonWorker;
+};
+
+const disposeWorker = (worker: Worker, language: RunnerLanguage, force: boolean) => {
+  if (language === "python" && !force) return;
+  worker.terminate();
+  if (worker === pythonWorker) pythonWorker = null;
+};
+
+// Stops each active run, by run id.
+const stops = new Map<string, () => void>();
+
+const run = (runId: string, language: RunnerLanguage, code: string) => {
+  const worker = createWorker(language);
+
+  const finish = (force: boolean) => {
+    stops.delete(runId);
+    worker.removeEventListener("message", handleMessage);
+    worker.removeEventListener("error", handleError);
+    disposeWorker(worker, language, force);
+  };
+
+  const handleMessage = ({ data }: MessageEvent<RunnerEvent>) => {
+    post({ type: "run", runId, event: data });
+    if (data.type === "done" || data.type === "error") finish(false);
+  };
+
+  const handleError = (event: ErrorEvent) => {
+    event.preventDefault();
+    post({
+      type: "run",
+      runId,
+      event: { type: "error", message: event.message || "The runner crashed." },
+    });
+    finish(true);
+  };
+
+  stops.set(runId, () => finish(true));
+  worker.addEventListener("message", handleMessage);
+  worker.addEventListener("error", handleError);
+  worker.postMessage({ type: "run", language, code });
+};
+
+window.addEventListener("message", (event: MessageEvent<RunnerFrameRequest>) => {
+  if (event.source !== window.parent) return;
+  const request = event.data;
+  if (request?.type === "run") run(request.runId, request.language, request.code);
+  if (request?.type === "stop") stops.get(request.runId)?.();
+});
+
+post({ type: "ready" });
@@ -0,0 +1,27 @@
+// Messages exchanged with the code runner workers.
+
+export type RunnerLanguage = "javascript" | "typescript" | "python";
+
+export type RunRequest = { type: "run"; language: RunnerLanguage; code: string };
+
+export type OutputStream = "log" | "info" | "warn" | "error" | "stdout" | "stderr";
+
+export type RunnerEvent =
+  // Posted by the Python worker while its runtime loads.
+  | { type: "loading" }
+  // The code started executing; the timeout counts from here.
+  | { type: "started" }
+  | { type: "output"; stream: OutputStream; text: string }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+// Between the app and the runner iframe (runner.html), which starts the
+// workers. The iframe has an opaque origin, so both sides check
+// `event.source` instead of `event.origin`.
+export type RunnerFrameRequest =
+  | { type: "run"; runId: string; language: RunnerLanguage; code: string }
+  | { type: "stop"; runId: string };
+
+export type RunnerFrameEvent =
+  | { type: "ready" }
+  | { type: "run"; runId: string; event: RunnerEvent };
@@ -0,0 +1,48 @@
+import { loadPyodide, type PyodideInterface } from "pyodide";
+
+import type { RunRequest, RunnerEvent } from "@/runner/protocol";
+
+// Served from the app itself (see the pyodide plugin in vite.config.ts), so
+// Python runs without a network connection. Absolute, because the worker is
+// started from a blob URL that relative paths can't resolve against.
+const INDEX_URL = new URL(`${import.meta.env.BASE_URL}pyodide/`, import.meta.url).href;
+
+const post = (event: RunnerEvent) =>
+  (self as unknown as Worker).postMessage(event);
+
+let runtime: Promise<PyodideInterface> | null = null;
+
+const getRuntime = () => {
+  runtime ??= loadPyodide({
+    indexURL: INDEX_URL,
+    stdout: (text) => post({ type: "output", stream: "stdout", text }),
+    stderr: (text) => post({ type: "output", stream: "stderr", text }),
+  });
+  return runtime;
+};
+
+// The worker is kept between runs so the runtime only loads once.
+self.onmessage = async (event: MessageEvent<RunRequest>) => {
+  let pyodide: PyodideInterface;
+  try {
+    post({ type: "loading" });
+    pyodide = await getRuntime();
+  } catch (error) {
+    runtime = null;
+    post({
+      type: "error",
+      message: `Python failed to load: ${error instanceof Error ? error.message : error}`,
+    });
+    return;
+  }
+  post({ type: "started" });
+  try {
+    // A fresh namespace per run, so runs don't see each other's variables.
+    const globals = pyodide.toPy({ __name__: "__main__" });
+    await pyodide.runPythonAsync(event.data.code, { globals });
+    globals.destroy();
+    post({ type: "done" });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,162 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import { transform } from "sucrase";
+import "@tailwindcss/browser";
+import "@/index.css";
+
+import { replacePlaceholderUrls } from "@/lib/placeholder";
+import {
+  isReactProject,
+  parseProjectFiles,
+  projectEntry,
+  resolveImport,
+} from "@/lib/react-project";
+import { requireModule } from "./modules";
+import type { SandboxEvent, SandboxRequest } from "./protocol";
+
+const post = (event: SandboxEvent) => {
+  window.parent.postMessage(event, "*");
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const compile = (source: string, filePath: string) =>
+  transform(replacePlaceholderUrls(source), {
+    transforms: ["jsx", "typescript", "imports"],
+    jsxRuntime: "automatic",
+    production: true,
+    filePath,
+  }).code;
+
+interface CommonJsModule {
+  exports: Record<string, unknown>;
+}
+
+const execute = (
+  code: string,
+  module: CommonJsModule,
+  require: (specifier: string) => unknown,
+) => {
+  const run = new Function("require", "module", "exports", code);
+  run(require, module, module.exports);
+};
+
+// Transpiles a single-file artifact to CommonJS and evaluates it against the
+// allow-listed module table, returning whatever it default-exports.
+const evaluateArtifact = (source: string): unknown => {
+  const module: CommonJsModule = { exports: {} };
+  execute(compile(source, "artifact.tsx"), module, requireModule);
+  return module.exports.default ?? module.exports;
+};
+
+// An error already prefixed with the project file it came from.
+class ProjectFileError extends Error {}
+
+// Evaluates a multi-file project from its entry. Relative imports resolve to
+// other project files, each evaluated once; anything else goes through the
+// allow-list.
+const evaluateProject = (source: string): unknown => {
+  const { files } = parseProjectFiles(source);
+  const entry = projectEntry(files);
+  if (!entry) throw new Error("The project has no files.");
+  const sources = new Map(files.map((file) => [file.path, file.content]));
+  const paths = new Set(sources.keys());
+  const cache = new Map<string, CommonJsModule>();
+
+  const load = (path: string): CommonJsModule["exports"] => {
+    const cached = cache.get(path);
+    if (cached) return cached.exports;
+    const module: CommonJsModule = { exports: {} };
+    // Cached before running so import cycles see partial exports, as in
+    // CommonJS.
+    cache.set(path, module);
+    const require = (specifier: string) => {
+      if (!specifier.startsWith(".")) return requireModule(specifier);
+      const resolved = resolveImport(path, specifier, paths);
+      if (!resolved) {
+        throw new ProjectFileError(`${path}: cannot find "${specifier}" in the project.`);
+      }
+      return load(resolved);
+    };
+    try {
+      execute(compile(sources.get(path)!, path), module, require);
+    } catch (error) {
+      if (error instanceof ProjectFileError) throw error;
+      throw new ProjectFileError(`${path}: ${errorMessage(error)}`);
+    }
+    return module.exports;
+  };
+
+  const exports = load(entry.path);
+  return exports.default ?? exports;
+};
+
+class ErrorBoundary extends React.Component<
+  { children: React.ReactNode },
+  { failed: boolean }
+> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    post({ type: "error", phase: "runtime", message: error.message });
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+const root = createRoot(document.getElementById("root")!);
+let renderCount = 0;
+
+const render = (source: string) => {
+  let exported: unknown;
+  try {
+    exported = isReactProject({ type: "application/vnd.ant.react", content: source })
+      ? evaluateProject(source)
+      : evaluateArtifact(source);
+  } catch (error) {
+    root.render(null);
+    post({ type: "error", phase: "compile", message: errorMessage(error) });
+    return;
+  }
+
+  let element: React.ReactNode;
+  if (React.isValidElement(exported)) {
+    element = exported;
+  } else if (typeof exported === "function") {
+    element = React.createElement(exported as React.ComponentType);
+  } else {
+    root.render(null);
+    post({
+      type: "error",
+      phase: "compile",
+      message: "The artifact must default-export a React component or element.",
+    });
+    return;
+  }
+
+  // A fresh key resets the boundary after a previous render failed.
+  root.render(<ErrorBoundary key={++renderCount}>{element}</ErrorBoundary>);
+  post({ type: "rendered" });
+};
+
+window.addEventListener("message", (event: MessageEvent<SandboxRequest>) => {
+  if (event.source !== window.parent) return;
+  if (event.data?.type === "render") render(event.data.code);
+});
+
+window.addEventListener("error", (event) => {
+  post({ type: "error", phase: "runtime", message: event.message });
+});
+
+window.addEventListener("unhandledrejection", (event) => {
+  post({ type: "error", phase: "runtime", message: errorMessage(event.reason) });
+});
+
+post({ type: "ready" });
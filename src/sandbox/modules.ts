@@ -0,0 +1,47 @@
+import React from "react";
+import * as ReactDOM from "react-dom";
+import * as ReactDOMClient from "react-dom/client";
+import * as jsxRuntime from "react/jsx-runtime";
+import * as LucideReact from "lucide-react";
+import * as Recharts from "recharts";
+import * as utils from "@/lib/utils";
+
+// shadcn/ui components are exposed under the same "@/components/ui/<name>"
+// paths the artifact instructions tell the model to import from.
+const uiComponents = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<Record<string, unknown>>("../components/ui/*.tsx", {
+      eager: true,
+    }),
+  ).map(([path, module]) => [
+    path.replace(/^\.\.\/components\/ui\/(.*)\.tsx$/, "@/components/ui/$1"),
+    module,
+  ]),
+);
+
+const modules: Record<string, unknown> = {
+  react: React,
+  "react-dom": ReactDOM,
+  "react-dom/client": ReactDOMClient,
+  "react/jsx-runtime": jsxRuntime,
+  "lucide-react": LucideReact,
+  recharts: Recharts,
+  "@/lib/utils": utils,
+  ...uiComponents,
+};
+
+export class UnresolvedImportError extends Error {
+  constructor(public specifier: string) {
+    super(
+      `Cannot import "${specifier}". Only react, lucide-react, recharts and @/components/ui/* are available in previews.`,
+    );
+    this.name = "UnresolvedImportError";
+  }
+}
+
+export const requireModule = (specifier: string): unknown => {
+  if (!(specifier in modules)) {
+    throw new UnresolvedImportError(specifier);
+  }
+  return modules[specifier];
+};
@@ -0,0 +1,14 @@
+// Messages exchanged between the app and the sandboxed preview iframe.
+// The iframe has an opaque origin, so both sides check `event.source`
+// instead of `event.origin`.
+
+export type SandboxRequest = { type: "render"; code: string };
+
+export type SandboxErrorPhase = "load" | "compile" | "runtime";
+
+export type SandboxEvent =
+  // Sent by sandbox.html itself when the preview's script fails to load.
+  | { type: "loadFailed" }
+  | { type: "ready" }
+  | { type: "rendered" }
+  | { type: "error"; phase: SandboxErrorPhase; message: string };
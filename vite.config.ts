@@ -1,13 +1,79 @@
+import fs from "fs"
 import path from "path"
 import react from "@vitejs/plugin-react"
-import { defineConfig } from "vite"
+import { defineConfig, type Plugin } from "vite"
+
+// The artifact sandbox and code runner iframes run without allow-same-origin,
+// so the browser requests their module scripts with an opaque `Origin: null`.
+// The dev and preview servers allow that here. A production host has to send
+// `Access-Control-Allow-Origin: *` (or `null`) with the files under /assets/
+// and /pyodide/ itself, or the preview and the runner can't load.
+const sandboxCors = {
+  origin: [
+    /^https?:\/\/(?:(?:[^:]+\.)?localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/,
+    "null",
+  ],
+}
+
+// Pyodide's runtime files, served under /pyodide/ in dev and copied there in
+// builds, so the Python runner works offline.
+const PYODIDE_FILES = [
+  "pyodide.asm.mjs",
+  "pyodide.asm.wasm",
+  "python_stdlib.zip",
+  "pyodide-lock.json",
+]
+const pyodideDir = path.resolve(__dirname, "node_modules/pyodide")
+
+const pyodideAssets = (): Plugin => ({
+  name: "pyodide-assets",
+  configureServer(server) {
+    server.middlewares.use("/pyodide", (req, res, next) => {
+      const file = req.url?.split("?")[0].replace(/^\//, "") ?? ""
+      if (!PYODIDE_FILES.includes(file)) return next()
+      if (file.endsWith(".wasm")) res.setHeader("Content-Type", "application/wasm")
+      if (file.endsWith(".mjs")) res.setHeader("Content-Type", "text/javascript")
+      fs.createReadStream(path.join(pyodideDir, file)).pipe(res)
+    })
+  },
+  generateBundle() {
+    for (const file of PYODIDE_FILES) {
+      this.emitFile({
+        type: "asset",
+        fileName: `pyodide/${file}`,
+        source: fs.readFileSync(path.join(pyodideDir, file)),
+      })
+    }
+  },
+})
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), pyodideAssets()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // Pyodide locates its files at runtime and must not be pre-bundled.
+  optimizeDeps: {
+    exclude: ["pyodide"],
+  },
+  worker: {
+    format: "es",
+  },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, "index.html"),
+        sandbox: path.resolve(__dirname, "sandbox.html"),
+        runner: path.resolve(__dirname, "runner.html"),
+      },
+    },
+  },
+  server: {
+    cors: sandboxCors,
+  },
+  preview: {
+    cors: sandboxCors,
+  },
 })
-